@@ -0,0 +1,50 @@
+// __tests__/ConfigSchema.test.ts
+
+import { JsonSchema, validateAgainstSchema } from '../src/functions/ingestion/ConfigSchema';
+
+const schema: JsonSchema = {
+    type: 'object',
+    additionalProperties: false,
+    required: ['url'],
+    properties: {
+        url: { type: 'string', pattern: '^https?://' },
+        depth: { type: 'integer', minimum: 0, maximum: 5 },
+        mode: { enum: ['full', 'incremental'] },
+        paths: { type: 'array', items: { type: 'string', minLength: 1 } },
+    },
+};
+
+describe('validateAgainstSchema', () => {
+    it('accepts a valid value and treats undefined properties as absent', () => {
+        expect(validateAgainstSchema(schema, { url: 'https://example.com', depth: 2, mode: 'full', paths: ['docs'], extra: undefined })).toEqual([]);
+    });
+
+    it('reports every violation with the path of the offending setting', () => {
+        expect(validateAgainstSchema(schema, { depth: 9, mode: 'partial', paths: [''], extra: true })).toEqual([
+            'config.url is required.',
+            'config.depth must be <= 5, got 9.',
+            'config.mode must be one of "full", "incremental", got "partial".',
+            'config.paths[0] must not be empty.',
+            'config.extra is not a known setting.',
+        ]);
+        expect(validateAgainstSchema(schema, { url: 'ftp://example.com', depth: 1.5 }, 'source.config')).toEqual([
+            'source.config.url must match the pattern ^https?://.',
+            'source.config.depth must be of type integer, got number.',
+        ]);
+    });
+
+    it('applies anyOf and if/then/else', () => {
+        const credentials: JsonSchema = {
+            type: 'object',
+            anyOf: [{ required: ['token'] }, { required: ['user', 'password'] }],
+            if: { properties: { auth: { const: 'oauth' } }, required: ['auth'] },
+            then: { required: ['clientId'] },
+        };
+
+        expect(validateAgainstSchema(credentials, { user: 'a', password: 'b' })).toEqual([]);
+        expect(validateAgainstSchema(credentials, { user: 'a' })).toEqual([
+            'config must satisfy one of: config.token is required. OR config.password is required.',
+        ]);
+        expect(validateAgainstSchema(credentials, { token: 't', auth: 'oauth' })).toEqual(['config.clientId is required.']);
+    });
+});
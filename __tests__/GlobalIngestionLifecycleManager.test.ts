@@ -0,0 +1,1174 @@
+// __tests__/GlobalIngestionLifecycleManager.test.ts
+
+vi.mock('@godspeedsystems/core', () => import('./helpers/godspeedCore'));
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { GlobalIngestionLifecycleManager } from '../src/functions/GlobalIngestionLifecycleManager';
+import * as GenericApiDestination from '../src/functions/ingestion/GenericApiDestinationAdapter';
+import { runLogger } from '../src/functions/ingestion/RunContext';
+import { InMemoryTaskStore } from '../src/functions/ingestion/TaskStore';
+import { IngestionEvents, IngestionTaskDefinition, IngestionTaskStatus } from '../src/functions/ingestion/interfaces';
+import { logger } from './helpers/godspeedCore';
+
+// What TestSource.execute does in the current test; receives the run's payload and abort signal
+let sourceBehaviour: (payload: any, signal?: AbortSignal) => Promise<any>;
+let sourceInstances = 0;
+
+class TestSource {
+    constructor(public options: any) {
+        sourceInstances++;
+    }
+    async initClient() {}
+    execute(_ctx: any, payload: any, signal?: AbortSignal) {
+        return sourceBehaviour(payload, signal);
+    }
+}
+
+// Batches received by TestDestination instances in the current test, with the destination config
+let processedBatches: Array<{ config: any, items: any[] }>;
+
+class TestDestination {
+    private config: any;
+    async init(config: any) {
+        this.config = config;
+    }
+    // config.fail makes the destination report a failure
+    async processData(items: any[]) {
+        processedBatches.push({ config: this.config, items });
+        return this.config.fail ? { success: false, code: 503, message: 'unavailable' } : { success: true, code: 200, message: 'stored' };
+    }
+}
+
+const identity = async (data: any[]) => data;
+const succeed = async () => ({ success: true, data: { data: [{ id: 'item-1', content: 'hello' }] } });
+const ctx: any = { event: { time: new Date().toISOString() } };
+
+function deferred() {
+    let resolve!: () => void;
+    const promise = new Promise<void>(done => { resolve = done; });
+    return { promise, resolve };
+}
+
+// A source that stays in execute until release() is called, and records how many executions overlap
+function blockingSource() {
+    const state = { started: 0, running: 0, maxRunning: 0, gates: [] as Array<() => void> };
+    sourceBehaviour = async () => {
+        const gate = deferred();
+        state.gates.push(gate.resolve);
+        state.started++;
+        state.running++;
+        state.maxRunning = Math.max(state.maxRunning, state.running);
+        await gate.promise;
+        state.running--;
+        return succeed();
+    };
+    return { state, release: (index: number) => state.gates[index]() };
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+async function waitUntil(condition: () => boolean) {
+    for (let tries = 0; !condition(); tries++) {
+        if (tries > 200) {
+            throw new Error('Condition not reached');
+        }
+        await flush();
+    }
+}
+
+function taskDefinition(overrides: Partial<IngestionTaskDefinition> = {}): IngestionTaskDefinition {
+    return {
+        id: 'task-1',
+        name: 'Test task',
+        enabled: true,
+        trigger: { type: 'manual' },
+        source: { pluginType: 'test-source', config: {} },
+        ...overrides,
+    };
+}
+
+function createManager(options: ConstructorParameters<typeof GlobalIngestionLifecycleManager>[0] = {}) {
+    const manager = new GlobalIngestionLifecycleManager(options);
+    manager.registerSource('test-source', TestSource as any, identity);
+    return manager;
+}
+
+beforeEach(() => {
+    sourceBehaviour = succeed;
+    sourceInstances = 0;
+    processedBatches = [];
+});
+
+describe('concurrency policies', () => {
+    it("'skip' rejects a trigger while the task is running", async () => {
+        const manager = createManager();
+        await manager.scheduleTask(taskDefinition());
+        const source = blockingSource();
+
+        const first = manager.triggerManualTask(ctx, 'task-1');
+        await waitUntil(() => source.state.started === 1);
+        const second = await manager.triggerManualTask(ctx, 'task-1');
+        expect(second).toMatchObject({ success: false, code: 409, data: { code: 'TASK_ALREADY_RUNNING', concurrencyDecision: 'skipped' } });
+
+        source.release(0);
+        expect(await first).toMatchObject({ success: true, data: { concurrencyDecision: 'started' } });
+        expect(source.state.started).toBe(1);
+    });
+
+    it("'queue' runs the trigger after the active run, without holding a worker slot while waiting", async () => {
+        const manager = createManager({ maxConcurrentRuns: 2 });
+        await manager.scheduleTask(taskDefinition({ concurrencyPolicy: 'queue' }));
+        await manager.scheduleTask(taskDefinition({ id: 'task-2' }));
+        const source = blockingSource();
+
+        const first = manager.triggerManualTask(ctx, 'task-1');
+        await waitUntil(() => source.state.started === 1);
+        const queued = manager.triggerManualTask(ctx, 'task-1');
+        await flush();
+        // The queued trigger waits outside the pool, so another task still gets the second slot
+        const other = manager.triggerManualTask(ctx, 'task-2');
+        await waitUntil(() => source.state.started === 2);
+
+        source.release(0);
+        source.release(1);
+        await waitUntil(() => source.state.started === 3);
+        source.release(2);
+
+        expect(await first).toMatchObject({ success: true });
+        expect(await other).toMatchObject({ success: true });
+        expect(await queued).toMatchObject({ success: true, data: { concurrencyDecision: 'queued' } });
+        expect(await manager.getRunHistory('task-1')).toHaveLength(2);
+    });
+
+    it("'replace' cancels the active run and starts a new one on fresh plugin instances", async () => {
+        const manager = createManager();
+        await manager.scheduleTask(taskDefinition({ concurrencyPolicy: 'replace' }));
+        sourceBehaviour = (_payload, signal) => new Promise(resolve => {
+            signal?.addEventListener('abort', () => resolve(succeed()));
+        });
+
+        const first = manager.triggerManualTask(ctx, 'task-1');
+        await waitUntil(() => sourceInstances === 1);
+        sourceBehaviour = succeed;
+        const second = await manager.triggerManualTask(ctx, 'task-1');
+
+        expect(second).toMatchObject({ success: true, data: { concurrencyDecision: 'replaced' } });
+        expect(await first).toMatchObject({ success: false, data: { cancelled: true, reason: 'Superseded by a newer run' } });
+        expect(manager.getTask('task-1')!.currentStatus).toBe(IngestionTaskStatus.COMPLETED);
+
+        // The cached orchestrator of the superseded run is not reused
+        await manager.triggerManualTask(ctx, 'task-1');
+        expect(sourceInstances).toBe(3);
+    });
+
+    it("'allow' runs triggers side by side", async () => {
+        const manager = createManager();
+        await manager.scheduleTask(taskDefinition({ concurrencyPolicy: 'allow' }));
+        const source = blockingSource();
+
+        const first = manager.triggerManualTask(ctx, 'task-1');
+        await waitUntil(() => source.state.started === 1);
+        const second = manager.triggerManualTask(ctx, 'task-1');
+        await waitUntil(() => source.state.started === 2);
+        expect(source.state.maxRunning).toBe(2);
+
+        source.release(0);
+        source.release(1);
+        expect(await first).toMatchObject({ success: true, data: { concurrencyDecision: 'started' } });
+        expect(await second).toMatchObject({ success: true, data: { concurrencyDecision: 'concurrent' } });
+    });
+
+    it('rejects an unknown policy when a task is scheduled or updated', async () => {
+        const manager = createManager();
+        expect(await manager.scheduleTask(taskDefinition({ concurrencyPolicy: 'sometimes' as any }))).toMatchObject({ success: false, code: 400 });
+        await manager.scheduleTask(taskDefinition());
+
+        expect(await manager.updateTask('task-1', { concurrencyPolicy: 'later' as any })).toMatchObject({ success: false, code: 400 });
+        expect(manager.getTask('task-1')!.concurrencyPolicy).toBeUndefined();
+    });
+});
+
+describe('worker pool', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("does not queue another cron trigger while one waits for the active run of a 'queue' task", async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        const manager = createManager();
+        await manager.scheduleTask(taskDefinition({ concurrencyPolicy: 'queue', trigger: { type: 'cron', expression: '* * * * *' } }));
+        const source = blockingSource();
+        const tick = (time: string): any => {
+            vi.setSystemTime(new Date(time));
+            return manager.triggerAllEnabledCronTasks({ event: { time } } as any);
+        };
+
+        const first = tick('2025-07-24T12:00:05.000Z');
+        await waitUntil(() => source.state.started === 1);
+        const waiting = tick('2025-07-24T12:01:05.000Z');
+        await flush();
+        // The run of 12:00 is still active and the trigger of 12:01 waits for it; 12:02 is not queued behind them
+        expect(await tick('2025-07-24T12:02:05.000Z')).toMatchObject({ message: 'No enabled cron tasks were due.' });
+
+        source.release(0);
+        await waitUntil(() => source.state.started === 2);
+        source.release(1);
+        await Promise.all([first, waiting]);
+        expect(source.state.started).toBe(2);
+    });
+});
+
+describe('retries', () => {
+    it('retries transient failures with backoff and records every attempt', async () => {
+        const manager = createManager();
+        await manager.scheduleTask(taskDefinition({ retry: { maxAttempts: 4, backoff: 'exponential', initialDelayMs: 5, maxDelayMs: 15 } }));
+        const delays: number[] = [];
+        manager.getEventBus().on('task.retrying', event => delays.push(event.payload.delayMs));
+        let calls = 0;
+        sourceBehaviour = async () => ++calls < 4 ? { success: false, code: 503, message: 'Unavailable' } : succeed();
+
+        const status = await manager.triggerManualTask(ctx, 'task-1');
+
+        expect(status.success).toBe(true);
+        expect(delays).toEqual([5, 10, 15]);
+        const history = await manager.getRunHistory('task-1');
+        expect(history.map(record => [record.attempt, record.status])).toEqual([
+            [4, IngestionTaskStatus.COMPLETED],
+            [3, IngestionTaskStatus.FAILED],
+            [2, IngestionTaskStatus.FAILED],
+            [1, IngestionTaskStatus.FAILED],
+        ]);
+        expect(new Set(history.map(record => record.runId)).size).toBe(1);
+    });
+
+    it('does not retry permanent failures', async () => {
+        const manager = createManager();
+        await manager.scheduleTask(taskDefinition({ retry: { maxAttempts: 3, initialDelayMs: 1 } }));
+        let calls = 0;
+        sourceBehaviour = async () => { calls++; return { success: false, code: 400, message: 'Bad request' }; };
+
+        const status = await manager.triggerManualTask(ctx, 'task-1');
+
+        expect(status).toMatchObject({ success: false, code: 400 });
+        expect(calls).toBe(1);
+        expect(manager.getTask('task-1')!.currentStatus).toBe(IngestionTaskStatus.FAILED);
+    });
+
+    it('uses fixed and linear delays capped at maxDelayMs', async () => {
+        const manager = createManager();
+        await manager.scheduleTask(taskDefinition({ id: 'fixed', retry: { maxAttempts: 3, backoff: 'fixed', initialDelayMs: 4 } }));
+        await manager.scheduleTask(taskDefinition({ id: 'linear', retry: { maxAttempts: 4, backoff: 'linear', initialDelayMs: 4, maxDelayMs: 10 } }));
+        const delays: { [taskId: string]: number[] } = { fixed: [], linear: [] };
+        manager.getEventBus().on('task.retrying', event => delays[event.taskId!].push(event.payload.delayMs));
+        sourceBehaviour = async () => ({ success: false, code: 500, message: 'Failed' });
+
+        await manager.triggerManualTask(ctx, 'fixed');
+        await manager.triggerManualTask(ctx, 'linear');
+
+        expect(delays).toEqual({ fixed: [4, 4], linear: [4, 8, 10] });
+    });
+
+    it('rejects invalid retry policies when a task is scheduled or updated', async () => {
+        const manager = createManager();
+        const invalidPolicies: any[] = [
+            { maxAttempts: 0 },
+            { maxAttempts: 2.5 },
+            { maxAttempts: 3, initialDelayMs: -1 },
+            { maxAttempts: 3, maxDelayMs: NaN },
+            { maxAttempts: 3, backoff: 'random' },
+        ];
+        for (const retry of invalidPolicies) {
+            expect(await manager.scheduleTask(taskDefinition({ retry }))).toMatchObject({ success: false, code: 400 });
+        }
+        await manager.scheduleTask(taskDefinition());
+
+        expect(await manager.updateTask('task-1', { retry: { maxAttempts: -1 } })).toMatchObject({ success: false, code: 400 });
+        expect(manager.getTask('task-1')!.retry).toBeUndefined();
+    });
+});
+
+describe('cron triggers', () => {
+    async function managerWithRestoredTask(overrides: Partial<IngestionTaskDefinition>) {
+        const taskStore = new InMemoryTaskStore();
+        await taskStore.saveTask(taskDefinition({
+            trigger: { type: 'cron', expression: '0 * * * *' },
+            currentStatus: IngestionTaskStatus.COMPLETED,
+            lastRun: new Date('2025-07-24T08:00:00.000Z'),
+            ...overrides,
+        }));
+        const manager = createManager({ taskStore });
+        await manager.init();
+        return manager;
+    }
+
+    function recordPayloads() {
+        const payloads: any[] = [];
+        sourceBehaviour = async payload => { payloads.push(payload); return succeed(); };
+        return payloads;
+    }
+
+    const tick = (time: string): any => ({ event: { time } });
+
+    it("catches up every missed run with 'all', up to maxCatchUpRuns", async () => {
+        const manager = await managerWithRestoredTask({ trigger: { type: 'cron', expression: '0 * * * *', catchUp: 'all', maxCatchUpRuns: 3 } });
+        const payloads = recordPayloads();
+
+        const status = await manager.triggerAllEnabledCronTasks(tick('2025-07-24T12:00:30.000Z'));
+
+        expect(status.success).toBe(true);
+        expect(payloads.map(payload => payload.scheduledTime)).toEqual([
+            '2025-07-24T10:00:00.000Z',
+            '2025-07-24T11:00:00.000Z',
+            '2025-07-24T12:00:00.000Z',
+        ]);
+        expect(payloads.every(payload => payload.catchUp)).toBe(true);
+    });
+
+    it("runs only the most recent missed run with 'latest'", async () => {
+        const manager = await managerWithRestoredTask({ trigger: { type: 'cron', expression: '0 * * * *', catchUp: 'latest' } });
+        const payloads = recordPayloads();
+
+        await manager.triggerAllEnabledCronTasks(tick('2025-07-24T12:20:00.000Z'));
+
+        expect(payloads.map(payload => payload.scheduledTime)).toEqual(['2025-07-24T12:00:00.000Z']);
+    });
+
+    it("skips missed runs with 'none' and only runs a tick that is due now", async () => {
+        const manager = await managerWithRestoredTask({});
+        const payloads = recordPayloads();
+
+        expect(await manager.triggerAllEnabledCronTasks(tick('2025-07-24T12:20:00.000Z'))).toMatchObject({ message: 'No enabled cron tasks were due.' });
+        await manager.triggerAllEnabledCronTasks(tick('2025-07-24T13:00:10.000Z'));
+
+        expect(payloads).toEqual([undefined]);
+    });
+
+    it('evaluates the expression in the trigger timezone', async () => {
+        const manager = createManager();
+        await manager.scheduleTask(taskDefinition({ id: 'kolkata', trigger: { type: 'cron', expression: '0 9 * * *', timezone: 'Asia/Kolkata' } }));
+        await manager.scheduleTask(taskDefinition({ id: 'utc', trigger: { type: 'cron', expression: '0 9 * * *', timezone: 'UTC' } }));
+        const ran: string[] = [];
+        manager.getEventBus().on('task.completed', event => ran.push(event.taskId!));
+
+        // 09:00 in Kolkata is 03:30 UTC
+        await manager.triggerAllEnabledCronTasks(tick('2025-07-24T03:30:10.000Z'));
+
+        expect(ran).toEqual(['kolkata']);
+        const nextRun = manager.getTask('kolkata')!.nextRun!;
+        expect([nextRun.getUTCHours(), nextRun.getUTCMinutes()]).toEqual([3, 30]);
+    });
+
+    it('rejects invalid timezones and catch-up settings', async () => {
+        const manager = createManager();
+        const invalidTriggers: any[] = [
+            { type: 'cron', expression: '0 * * * *', timezone: 'Mars/Olympus' },
+            { type: 'cron', expression: '0 * * * *', catchUp: 'sometimes' },
+            { type: 'cron', expression: '0 * * * *', catchUp: 'all', maxCatchUpRuns: 0 },
+            { type: 'cron', expression: '0 * * * *', catchUp: 'all', maxCatchUpRuns: 2.5 },
+        ];
+        for (const trigger of invalidTriggers) {
+            expect(await manager.scheduleTask(taskDefinition({ trigger }))).toMatchObject({ success: false, code: 400 });
+        }
+        expect(manager.listTasks()).toEqual([]);
+    });
+});
+
+describe('internal scheduler', () => {
+    let manager: GlobalIngestionLifecycleManager | undefined;
+
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['Date', 'setTimeout', 'clearTimeout'] });
+        vi.setSystemTime(new Date('2025-07-24T12:10:00.000Z'));
+    });
+
+    afterEach(async () => {
+        await manager?.stop({ drainTimeoutMs: 0 });
+        manager = undefined;
+        vi.useRealTimers();
+    });
+
+    function recordPayloads() {
+        const payloads: any[] = [];
+        sourceBehaviour = async payload => { payloads.push(payload); return succeed(); };
+        return payloads;
+    }
+
+    it('runs a cron task at its next occurrence and fills in nextRun', async () => {
+        manager = createManager({ internalScheduler: true });
+        await manager.scheduleTask(taskDefinition({ trigger: { type: 'cron', expression: '0 * * * *' } }));
+        const payloads = recordPayloads();
+        await manager.start();
+        expect(manager.getTask('task-1')!.nextRun).toEqual(new Date('2025-07-24T13:00:00.000Z'));
+
+        await vi.advanceTimersByTimeAsync(50 * 60 * 1000);
+        await waitUntil(() => manager!.getTask('task-1')!.currentStatus === IngestionTaskStatus.COMPLETED);
+
+        expect(payloads).toEqual([undefined]);
+        expect(manager.getTask('task-1')!.nextRun).toEqual(new Date('2025-07-24T14:00:00.000Z'));
+    });
+
+    it('applies the catch-up policy when a timer fires after occurrences were missed', async () => {
+        const taskStore = new InMemoryTaskStore();
+        await taskStore.saveTask(taskDefinition({
+            trigger: { type: 'cron', expression: '0 * * * *', catchUp: 'latest' },
+            currentStatus: IngestionTaskStatus.COMPLETED,
+            lastRun: new Date('2025-07-24T12:00:00.000Z'),
+        }));
+        manager = createManager({ taskStore, internalScheduler: true });
+        await manager.init();
+        const payloads = recordPayloads();
+        await manager.start();
+
+        // The clock jumps ahead, as after a suspend, and the timer armed for 13:00 fires late at 16:20
+        vi.setSystemTime(new Date('2025-07-24T15:30:00.000Z'));
+        await vi.advanceTimersByTimeAsync(50 * 60 * 1000);
+        await waitUntil(() => payloads.length === 1);
+
+        expect(payloads).toEqual([{ scheduledTime: '2025-07-24T16:00:00.000Z', catchUp: true }]);
+    });
+});
+
+describe('dependency triggers', () => {
+    let manager: GlobalIngestionLifecycleManager;
+
+    beforeEach(async () => {
+        manager = createManager();
+        await manager.start();
+    });
+
+    afterEach(async () => {
+        await manager.stop();
+    });
+
+    const dependent = (id: string, dependsOn: string[], on?: 'success' | 'failure' | 'always') => taskDefinition({ id, trigger: { type: 'dependency', dependsOn, on } });
+
+    it('runs a task after its upstream task succeeds, with the upstream outcome in the payload', async () => {
+        await manager.scheduleTask(taskDefinition({ id: 'fetch' }));
+        await manager.scheduleTask(dependent('index', ['fetch']));
+        const indexed = manager.getEventBus().waitFor('task.completed', event => event.taskId === 'index', 5000);
+        const payloads: any[] = [];
+        sourceBehaviour = async payload => { payloads.push(payload); return succeed(); };
+
+        await manager.triggerManualTask(ctx, 'fetch');
+        await indexed;
+
+        expect(payloads).toEqual([undefined, { upstream: { fetch: { success: true, message: expect.any(String) } } }]);
+        const [record] = await manager.getRunHistory('index');
+        expect(record.triggerType).toBe('dependency');
+    });
+
+    it('waits until every upstream task has finished', async () => {
+        await manager.scheduleTask(taskDefinition({ id: 'docs' }));
+        await manager.scheduleTask(taskDefinition({ id: 'blog' }));
+        await manager.scheduleTask(dependent('merge', ['docs', 'blog']));
+        const merged = manager.getEventBus().waitFor('task.completed', event => event.taskId === 'merge', 5000);
+
+        await manager.triggerManualTask(ctx, 'docs');
+        await flush();
+        expect(await manager.getRunHistory('merge')).toEqual([]);
+
+        await manager.triggerManualTask(ctx, 'blog');
+        await merged;
+        expect(await manager.getRunHistory('merge')).toHaveLength(1);
+    });
+
+    it("follows the upstream outcome the 'on' condition asks for", async () => {
+        await manager.scheduleTask(taskDefinition({ id: 'fetch' }));
+        await manager.scheduleTask(dependent('on-success', ['fetch']));
+        await manager.scheduleTask(dependent('on-failure', ['fetch'], 'failure'));
+        const alerted = manager.getEventBus().waitFor('task.completed', event => event.taskId === 'on-failure', 5000);
+        // Only the upstream run fails; dependency-triggered runs receive the upstream outcome
+        sourceBehaviour = async payload => payload?.upstream ? succeed() : { success: false, code: 400, message: 'Bad request' };
+
+        await manager.triggerManualTask(ctx, 'fetch');
+        await alerted;
+
+        expect(await manager.getRunHistory('on-success')).toEqual([]);
+    });
+
+    it('rejects unknown conditions and dependency cycles', async () => {
+        await manager.scheduleTask(taskDefinition({ id: 'a' }));
+        await manager.scheduleTask(dependent('b', ['a']));
+
+        expect(await manager.scheduleTask(dependent('c', ['b'], 'sometimes' as any))).toMatchObject({ success: false, code: 400 });
+        expect(await manager.updateTask('a', { trigger: { type: 'dependency', dependsOn: ['b'] } })).toMatchObject({ success: false, code: 400 });
+        expect(manager.getTask('a')!.trigger).toEqual({ type: 'manual' });
+    });
+
+    it('keeps collected upstream outcomes across updates that leave the trigger unchanged', async () => {
+        await manager.scheduleTask(taskDefinition({ id: 'docs' }));
+        await manager.scheduleTask(taskDefinition({ id: 'blog' }));
+        await manager.scheduleTask(dependent('merge', ['docs', 'blog']));
+        const merged = manager.getEventBus().waitFor('task.completed', event => event.taskId === 'merge', 5000);
+
+        await manager.triggerManualTask(ctx, 'docs');
+        await manager.updateTask('merge', { priority: 5 });
+        await manager.triggerManualTask(ctx, 'blog');
+        await merged;
+
+        expect(await manager.getRunHistory('merge')).toHaveLength(1);
+    });
+
+    it('does not trigger dependent tasks before the manager is started', async () => {
+        const idle = createManager();
+        await idle.scheduleTask(taskDefinition({ id: 'fetch' }));
+        await idle.scheduleTask(dependent('index', ['fetch']));
+
+        expect(await idle.triggerManualTask(ctx, 'fetch')).toMatchObject({ success: true });
+        await flush();
+
+        expect(await idle.getRunHistory('index')).toEqual([]);
+    });
+});
+
+describe('cancellation and timeouts', () => {
+    it('cancelRun stops the active run and records it as cancelled', async () => {
+        const manager = createManager();
+        await manager.scheduleTask(taskDefinition());
+        sourceBehaviour = (_payload, signal) => new Promise(resolve => {
+            signal?.addEventListener('abort', () => resolve(succeed()));
+        });
+
+        const run = manager.triggerManualTask(ctx, 'task-1');
+        await waitUntil(() => sourceInstances === 1);
+        const cancel = await manager.cancelRun('task-1');
+
+        expect(cancel).toMatchObject({ success: true });
+        expect(await run).toMatchObject({ success: false, data: { cancelled: true, reason: 'Cancelled by request' } });
+        expect(manager.getTask('task-1')!.currentStatus).toBe(IngestionTaskStatus.CANCELLED);
+        const [record] = await manager.getRunHistory('task-1');
+        expect(record.status).toBe(IngestionTaskStatus.CANCELLED);
+        expect(await manager.cancelRun('task-1')).toMatchObject({ success: false, code: 404, data: { code: 'RUN_NOT_ACTIVE' } });
+    });
+
+    it('cancels a run that exceeds timeoutMs, even when the source ignores the signal', async () => {
+        const manager = createManager();
+        await manager.scheduleTask(taskDefinition({ timeoutMs: 20 }));
+        const hanging = deferred();
+        sourceBehaviour = async () => { await hanging.promise; return succeed(); };
+
+        const status = await manager.triggerManualTask(ctx, 'task-1');
+        expect(status).toMatchObject({ success: false, data: { cancelled: true, reason: 'Timed out after 20ms' } });
+
+        // The abandoned run may still use its plugin instances, so the next run gets new ones
+        sourceBehaviour = succeed;
+        expect(await manager.triggerManualTask(ctx, 'task-1')).toMatchObject({ success: true });
+        expect(sourceInstances).toBe(2);
+        hanging.resolve();
+    });
+
+    it('rejects a timeoutMs that is not a positive number', async () => {
+        const manager = createManager();
+        for (const timeoutMs of [0, -5, Infinity, NaN, '100' as any]) {
+            expect(await manager.scheduleTask(taskDefinition({ timeoutMs }))).toMatchObject({ success: false, code: 400 });
+        }
+        await manager.scheduleTask(taskDefinition({ timeoutMs: 1000 }));
+
+        expect(await manager.updateTask('task-1', { timeoutMs: 0 })).toMatchObject({ success: false, code: 400 });
+        expect(manager.getTask('task-1')!.timeoutMs).toBe(1000);
+    });
+});
+
+describe('interval and one-shot triggers', () => {
+    let manager: GlobalIngestionLifecycleManager;
+
+    beforeEach(() => {
+        manager = createManager();
+    });
+
+    afterEach(async () => {
+        await manager.stop();
+    });
+
+    it('runs an interval task every everyMs until it is disabled', async () => {
+        await manager.scheduleTask(taskDefinition({ trigger: { type: 'interval', everyMs: 20 } }));
+        const payloads: any[] = [];
+        sourceBehaviour = async payload => { payloads.push(payload); return succeed(); };
+        await manager.start();
+
+        await manager.getEventBus().waitFor('task.completed', () => payloads.length >= 2, 5000);
+        await manager.disableTask('task-1');
+        const runs = payloads.length;
+        await new Promise(resolve => setTimeout(resolve, 60));
+
+        expect(payloads.length).toBe(runs);
+        expect(payloads[0]).toEqual({ scheduledTime: expect.any(String) });
+    });
+
+    it('runs a one-shot task once at runAt and then disables it', async () => {
+        const runAt = new Date(Date.now() + 20).toISOString();
+        await manager.scheduleTask(taskDefinition({ trigger: { type: 'oneshot', runAt } }));
+        const completed = manager.getEventBus().waitFor('task.disabled', undefined, 5000);
+        await manager.start();
+        expect(manager.getTask('task-1')!.nextRun).toEqual(new Date(runAt));
+
+        await completed;
+
+        expect(manager.getTask('task-1')).toMatchObject({ enabled: false, currentStatus: IngestionTaskStatus.DISABLED, nextRun: undefined });
+        expect(await manager.getRunHistory('task-1')).toHaveLength(1);
+    });
+
+    it('rejects invalid intervals and run times', async () => {
+        const invalidTriggers: any[] = [
+            { type: 'interval', everyMs: 0 },
+            { type: 'interval', everyMs: 1000, startAt: 'soon' },
+            { type: 'interval', everyMs: 1000, startAt: '2025-07-25T00:00:00Z', endAt: '2025-07-24T00:00:00Z' },
+            { type: 'oneshot', runAt: 'tomorrow' },
+        ];
+        for (const trigger of invalidTriggers) {
+            expect(await manager.scheduleTask(taskDefinition({ trigger }))).toMatchObject({ success: false, code: 400 });
+        }
+    });
+});
+
+describe('file watch triggers', () => {
+    let directory: string;
+    let manager: GlobalIngestionLifecycleManager;
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'file-watch-'));
+        manager = createManager();
+    });
+
+    afterEach(async () => {
+        await manager.stop();
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('runs the task once per debounced batch of matching changes', async () => {
+        await fs.writeFile(path.join(directory, 'existing.csv'), 'a,b', 'utf8');
+        await manager.scheduleTask(taskDefinition({ trigger: { type: 'filewatch', path: directory, patterns: ['*.csv'], ignore: ['skip-*'], debounceMs: 50 } }));
+        const payloads: any[] = [];
+        sourceBehaviour = async payload => { payloads.push(payload); return succeed(); };
+        await manager.start();
+        // Wait for the initial scan, so existing.csv is known and reported as changed
+        await new Promise(resolve => setTimeout(resolve, 50));
+
+        const completed = manager.getEventBus().waitFor('task.completed', undefined, 5000);
+        await fs.writeFile(path.join(directory, 'new.csv'), 'c,d', 'utf8');
+        await fs.writeFile(path.join(directory, 'existing.csv'), 'a,b,c', 'utf8');
+        await fs.writeFile(path.join(directory, 'notes.txt'), 'ignored', 'utf8');
+        await fs.writeFile(path.join(directory, 'skip-me.csv'), 'ignored', 'utf8');
+        await completed;
+
+        expect(payloads).toEqual([{
+            fileWatch: { created: [path.join(directory, 'new.csv')], changed: [path.join(directory, 'existing.csv')], deleted: [] },
+        }]);
+    });
+
+    it('stops watching when the task is disabled', async () => {
+        await manager.scheduleTask(taskDefinition({ trigger: { type: 'filewatch', path: directory, debounceMs: 10 } }));
+        await manager.start();
+        await new Promise(resolve => setTimeout(resolve, 50));
+        await manager.disableTask('task-1');
+
+        await fs.writeFile(path.join(directory, 'late.csv'), 'x', 'utf8');
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        expect(await manager.getRunHistory('task-1')).toEqual([]);
+    });
+});
+
+describe('config schemas', () => {
+    const sourceSchema = {
+        type: 'object' as const,
+        additionalProperties: false,
+        required: ['url'],
+        properties: { url: { type: 'string' as const }, depth: { type: 'integer' as const, minimum: 0 } },
+    };
+
+    function createSchemaManager() {
+        const manager = new GlobalIngestionLifecycleManager();
+        manager.registerSource('test-source', TestSource as any, identity, sourceSchema, { depth: 1 });
+        manager.registerDestination(GenericApiDestination.Type, GenericApiDestination.GenericApiDestinationAdapter, GenericApiDestination.CONFIG_SCHEMA);
+        return manager;
+    }
+
+    it('rejects a task whose source or destination config violates the plugin schema', async () => {
+        const manager = createSchemaManager();
+
+        const result = await manager.scheduleTask(taskDefinition({
+            source: { pluginType: 'test-source', config: { depth: -1 } },
+            destinations: [{ pluginType: GenericApiDestination.Type, config: { endpoint: 'https://api.example.com', token: 'x' } }],
+        }));
+
+        expect(result).toMatchObject({ success: false, code: 400, message: "Invalid plugin config for task 'task-1'." });
+        expect(result.data.errors).toEqual([
+            'source.config.url is required.',
+            'source.config.depth must be >= 0, got -1.',
+            'destinations[0].config.token is not a known setting.',
+        ]);
+        expect(manager.getTask('task-1')).toBeUndefined();
+    });
+
+    it('checks the config with the plugin defaults filled in, and again on update', async () => {
+        const manager = createSchemaManager();
+        expect(await manager.scheduleTask(taskDefinition({ source: { pluginType: 'test-source', config: { url: 'https://example.com' } } }))).toMatchObject({ success: true });
+
+        const result = await manager.updateTask('task-1', { source: { pluginType: 'test-source', config: { url: 42 } } });
+
+        expect(result).toMatchObject({ success: false, code: 400, data: { errors: ['source.config.url must be of type string, got integer.'] } });
+        expect(manager.getTask('task-1')!.source.config).toEqual({ url: 'https://example.com' });
+    });
+});
+
+describe('transformer chains', () => {
+    const items = [{ id: 'a', content: 'Hello' }, { id: 'b', content: 'World' }];
+
+    function createChainManager() {
+        const manager = createManager();
+        manager.registerDestination('test-destination', TestDestination);
+        manager.registerTransformer('uppercase', async data => data.map(item => ({ ...item, content: item.content.toUpperCase() })));
+        manager.registerTransformer('suffix', async (data, _payload, params) => data.map(item => ({ ...item, content: item.content + params.suffix })));
+        sourceBehaviour = async () => ({ success: true, data: { data: items } });
+        return manager;
+    }
+
+    it('runs the named transformers in order, each with its params, instead of the source transformer', async () => {
+        const manager = createChainManager();
+        await manager.scheduleTask(taskDefinition({
+            transformers: [{ name: 'uppercase' }, { name: 'suffix', params: { suffix: '!' } }],
+            destination: { pluginType: 'test-destination', config: {} },
+        }));
+        const steps: any[] = [];
+        manager.getEventBus().on(IngestionEvents.DATA_TRANSFORMED, ({ payload: { data, ...step } }) => steps.push(step));
+
+        expect(await manager.triggerManualTask(ctx, 'task-1')).toMatchObject({ success: true });
+
+        expect(processedBatches[0].items.map(item => item.content)).toEqual(['HELLO!', 'WORLD!']);
+        expect(steps).toEqual([{ step: 'uppercase', index: 0, total: 2 }, { step: 'suffix', index: 1, total: 2 }]);
+    });
+
+    it("passes transformerParams to the source's transformer when no chain is set", async () => {
+        const manager = createChainManager();
+        const sourceTransformer = vi.fn(async (data: any[]) => data);
+        manager.registerSource('test-source', TestSource as any, sourceTransformer);
+        await manager.scheduleTask(taskDefinition({ transformerParams: { language: 'en' }, destination: { pluginType: 'test-destination', config: {} } }));
+
+        await manager.triggerManualTask(ctx, 'task-1');
+
+        expect(sourceTransformer).toHaveBeenCalledWith(items, expect.any(Object), { language: 'en' });
+        expect(processedBatches[0].items).toEqual(items);
+    });
+
+    it('rejects steps that name no registered transformer', async () => {
+        const manager = createChainManager();
+
+        const result = await manager.scheduleTask(taskDefinition({ transformers: [{ name: 'uppercase' }, { name: 'translate' }, {} as any] }));
+
+        expect(result).toMatchObject({ success: false, code: 400 });
+        expect(result.data.errors).toEqual([
+            expect.stringContaining("transformers[1]: transformer 'translate' is not registered"),
+            'transformers[2].name is required.',
+        ]);
+    });
+});
+
+describe('multiple destinations', () => {
+    function createDestinationManager() {
+        const manager = createManager();
+        manager.registerDestination('test-destination', TestDestination);
+        return manager;
+    }
+
+    it('sends the same data to every destination and names unnamed ones after their plugin type', async () => {
+        const manager = createDestinationManager();
+        await manager.scheduleTask(taskDefinition({
+            destination: { pluginType: 'test-destination', config: { target: 'primary' } },
+            destinations: [{ pluginType: 'test-destination', config: { target: 'backup' } }, { name: 'archive', pluginType: 'test-destination', config: { target: 'archive' } }],
+        }));
+
+        const result = await manager.triggerManualTask(ctx, 'task-1');
+
+        expect(result).toMatchObject({ success: true, code: 200 });
+        expect(processedBatches.map(batch => batch.config.target).sort()).toEqual(['archive', 'backup', 'primary']);
+        expect(processedBatches.every(batch => batch.items[0].id === 'item-1')).toBe(true);
+        expect(result.data.destinationResults.map((entry: any) => [entry.name, entry.success])).toEqual([
+            ['test-destination', true],
+            ['test-destination#2', true],
+            ['archive', true],
+        ]);
+    });
+
+    it('reports a run where only some destinations fail as partially completed with code 207', async () => {
+        const manager = createDestinationManager();
+        await manager.scheduleTask(taskDefinition({
+            destinations: [{ name: 'search', pluginType: 'test-destination', config: {} }, { name: 'archive', pluginType: 'test-destination', config: { fail: true } }],
+        }));
+
+        const result = await manager.triggerManualTask(ctx, 'task-1');
+
+        expect(result).toMatchObject({ success: true, code: 207, data: { partial: true, itemsProcessed: 1 } });
+        expect(result.data.destinationResults).toEqual([
+            expect.objectContaining({ name: 'search', success: true }),
+            expect.objectContaining({ name: 'archive', success: false, code: 503, message: 'unavailable' }),
+        ]);
+        expect(manager.getTask('task-1')!.currentStatus).toBe(IngestionTaskStatus.PARTIALLY_COMPLETED);
+        expect((await manager.getRunHistory('task-1'))[0].status).toBe(IngestionTaskStatus.PARTIALLY_COMPLETED);
+    });
+
+    it('fails the run when every destination fails', async () => {
+        const manager = createDestinationManager();
+        await manager.scheduleTask(taskDefinition({
+            destinations: [{ name: 'search', pluginType: 'test-destination', config: { fail: true } }, { name: 'archive', pluginType: 'test-destination', config: { fail: true } }],
+        }));
+
+        const result = await manager.triggerManualTask(ctx, 'task-1');
+
+        expect(result).toMatchObject({ success: false, code: 500 });
+        expect(result.message).toContain('search: unavailable; archive: unavailable');
+        expect(manager.getTask('task-1')!.currentStatus).toBe(IngestionTaskStatus.FAILED);
+    });
+
+    it('rejects destinations without a plugin type or with a duplicate name', async () => {
+        const manager = createDestinationManager();
+
+        const result = await manager.scheduleTask(taskDefinition({
+            destinations: [{ name: 'search', pluginType: 'test-destination', config: {} }, { name: 'search', pluginType: 'test-destination', config: {} }, { config: {} } as any],
+        }));
+
+        expect(result).toMatchObject({ success: false, code: 400 });
+        expect(result.data.errors).toEqual([
+            "destinations[1]: the name 'search' is used by another destination.",
+            'destinations[2].pluginType is required.',
+        ]);
+    });
+});
+
+describe('dry runs', () => {
+    const items = [
+        { id: 'page-1', content: 'A long page of text' },
+        { id: 'page-2', content: Buffer.from('binary') },
+        { id: 'page-3', content: 'Removed page', metadata: { changeType: 'removed' } },
+    ];
+
+    function createDryRunManager() {
+        const manager = createManager();
+        manager.registerDestination('test-destination', TestDestination);
+        sourceBehaviour = async () => ({ success: true, data: { data: items } });
+        return manager;
+    }
+
+    it('previews the items a run would write and delete without calling a destination', async () => {
+        const manager = createDryRunManager();
+        await manager.scheduleTask(taskDefinition({ destinations: [{ name: 'search', pluginType: 'test-destination', config: {} }] }));
+        const events: string[] = [];
+        manager.getEventBus().on('**', (_event, eventName) => events.push(eventName));
+
+        const result = await manager.triggerManualTask(ctx, 'task-1', undefined, { dryRun: true, sampleSize: 2, maxContentLength: 6 });
+
+        expect(result).toMatchObject({ success: true, code: 200 });
+        expect(result.data).toMatchObject({ dryRun: true, destinations: ['search'], idsToWrite: ['page-1', 'page-2'], idsToDelete: ['page-3'], itemsFetched: 3 });
+        expect(result.data.sample).toEqual([
+            { id: 'page-1', content: 'A long...', contentLength: 19, contentTruncated: true },
+            { id: 'page-2', content: '<Buffer 6 bytes>', contentLength: 6, contentTruncated: true },
+        ]);
+        expect(processedBatches).toEqual([]);
+        expect(events).toEqual([]);
+        expect(await manager.getRunHistory('task-1')).toEqual([]);
+        expect(manager.getTask('task-1')!.currentStatus).toBe(IngestionTaskStatus.SCHEDULED);
+    });
+
+    it('previews disabled tasks', async () => {
+        const manager = createDryRunManager();
+        await manager.scheduleTask(taskDefinition({ enabled: false }));
+
+        const result = await manager.triggerManualTask(ctx, 'task-1', undefined, { dryRun: true });
+
+        expect(result).toMatchObject({ success: true, data: { destinations: [], idsToWrite: ['page-1', 'page-2'] } });
+        expect(result.data.sample).toHaveLength(3);
+    });
+
+    it('rejects invalid sample settings', async () => {
+        const manager = createDryRunManager();
+        await manager.scheduleTask(taskDefinition());
+
+        expect(await manager.triggerManualTask(ctx, 'task-1', undefined, { dryRun: true, sampleSize: -1 })).toMatchObject({ success: false, code: 400 });
+        expect(sourceInstances).toBe(0);
+    });
+});
+
+describe('updates and reloads', () => {
+    let manager: GlobalIngestionLifecycleManager;
+
+    beforeEach(() => {
+        manager = createManager();
+    });
+
+    afterEach(async () => {
+        await manager.stop();
+    });
+
+    it('reloadTask builds new plugin instances for later runs', async () => {
+        await manager.scheduleTask(taskDefinition());
+        await manager.triggerManualTask(ctx, 'task-1');
+        await manager.triggerManualTask(ctx, 'task-1');
+        expect(sourceInstances).toBe(1);
+        const reloaded = manager.getEventBus().waitFor('task.reloaded', undefined, 5000);
+
+        expect(await manager.reloadTask('task-1')).toMatchObject({ success: true, data: { activeRunIds: [] } });
+        await reloaded;
+        await manager.triggerManualTask(ctx, 'task-1');
+
+        expect(sourceInstances).toBe(2);
+    });
+
+    it('reloadTask reports a source that cannot be built and an unknown task', async () => {
+        class BrokenSource {
+            constructor() {
+                throw new Error('credentials file missing');
+            }
+        }
+        manager.registerSource('broken-source', BrokenSource as any, identity);
+        await manager.scheduleTask(taskDefinition({ source: { pluginType: 'broken-source', config: {} } }));
+
+        const result = await manager.reloadTask('task-1');
+
+        expect(result.success).toBe(false);
+        expect(result.message).toContain("Task 'task-1' could not be reloaded");
+        expect(result.message).toContain('credentials file missing');
+        expect(await manager.reloadTask('missing')).toMatchObject({ success: false });
+    });
+
+    it('rebuilds the plugin instances after an update of the source, but not after other updates', async () => {
+        await manager.scheduleTask(taskDefinition());
+        await manager.triggerManualTask(ctx, 'task-1');
+
+        await manager.updateTask('task-1', { priority: 5 });
+        await manager.triggerManualTask(ctx, 'task-1');
+        expect(sourceInstances).toBe(1);
+
+        await manager.updateTask('task-1', { source: { pluginType: 'test-source', config: { url: 'https://example.com' } } });
+        await manager.triggerManualTask(ctx, 'task-1');
+        expect(sourceInstances).toBe(2);
+    });
+
+    it("disables and enables a task through an update of 'enabled'", async () => {
+        await manager.scheduleTask(taskDefinition({ trigger: { type: 'interval', everyMs: 20 } }));
+        let runs = 0;
+        sourceBehaviour = async () => { runs++; return succeed(); };
+        const events: string[] = [];
+        manager.getEventBus().on('task.*', (_event, eventName) => events.push(eventName));
+        await manager.start();
+        await manager.getEventBus().waitFor('task.completed', undefined, 5000);
+
+        await manager.updateTask('task-1', { enabled: false, priority: 1 });
+        const runsWhileDisabled = runs;
+        await new Promise(resolve => setTimeout(resolve, 60));
+        expect(runs).toBe(runsWhileDisabled);
+        expect(manager.getTask('task-1')).toMatchObject({ enabled: false, priority: 1, currentStatus: IngestionTaskStatus.DISABLED });
+        expect(events.filter(name => ['task.disabled', 'task.updated'].includes(name))).toEqual(['task.disabled', 'task.updated']);
+
+        events.length = 0;
+        await manager.updateTask('task-1', { enabled: true, trigger: { type: 'interval', everyMs: 10 } });
+        expect(manager.getTask('task-1')).toMatchObject({ enabled: true, currentStatus: IngestionTaskStatus.SCHEDULED });
+        expect(events).toEqual(['task.updated', 'task.enabled']);
+        await manager.getEventBus().waitFor('task.completed', undefined, 5000);
+        expect(runs).toBeGreaterThan(runsWhileDisabled);
+    });
+});
+
+describe('stopping', () => {
+    it('waits for active runs to finish and rejects new triggers meanwhile', async () => {
+        const manager = createManager();
+        await manager.scheduleTask(taskDefinition());
+        await manager.scheduleTask(taskDefinition({ id: 'task-2' }));
+        await manager.start();
+        const source = blockingSource();
+        const run = manager.triggerManualTask(ctx, 'task-1');
+        await waitUntil(() => source.state.started === 1);
+
+        let stopped = false;
+        const stopping = manager.stop({ drainTimeoutMs: 5000 }).then(() => { stopped = true; });
+        await flush();
+        expect(await manager.triggerManualTask(ctx, 'task-2')).toMatchObject({ success: false, code: 503, data: { code: 'MANAGER_STOPPING' } });
+        expect(stopped).toBe(false);
+
+        source.release(0);
+        await stopping;
+        expect(await run).toMatchObject({ success: true });
+        expect(manager.getTask('task-1')!.currentStatus).toBe(IngestionTaskStatus.COMPLETED);
+    });
+
+    it('cancels the runs still active at the drain deadline and records them before resolving', async () => {
+        const manager = createManager();
+        await manager.scheduleTask(taskDefinition({ retry: { maxAttempts: 3, backoff: 'fixed', initialDelayMs: 1 } }));
+        await manager.start();
+        // Ignores the abort signal, so only the deadline can end the run
+        sourceBehaviour = () => new Promise(() => undefined);
+        const run = manager.triggerManualTask(ctx, 'task-1');
+        await waitUntil(() => manager.getTask('task-1')!.currentStatus === IngestionTaskStatus.RUNNING);
+
+        const startedAt = Date.now();
+        await manager.stop({ drainTimeoutMs: 50 });
+
+        expect(Date.now() - startedAt).toBeGreaterThanOrEqual(45);
+        expect(await run).toMatchObject({ success: false, code: 499, data: { cancelled: true } });
+        expect((await run).data.reason).toContain('drain timeout of 50ms');
+        const history = await manager.getRunHistory('task-1');
+        expect(history.map(record => record.status)).toEqual([IngestionTaskStatus.CANCELLED]);
+        expect(manager.getTask('task-1')!.currentStatus).toBe(IngestionTaskStatus.CANCELLED);
+    });
+});
+
+describe('run events and logs', () => {
+    it('emits every event of a run in an envelope with its runId and attempt, and one outcome per attempt', async () => {
+        const manager = createManager();
+        await manager.scheduleTask(taskDefinition({ retry: { maxAttempts: 2, backoff: 'fixed', initialDelayMs: 1 } }));
+        let calls = 0;
+        sourceBehaviour = async () => ++calls === 1 ? { success: false, code: 503, message: 'Unavailable' } : succeed();
+        const events: any[] = [];
+        manager.getEventBus().on('**', (event, eventName) => events.push({ eventName, ...event }));
+
+        const status = await manager.triggerManualTask(ctx, 'task-1');
+
+        const runEvents = events.filter(event => event.runId);
+        const [runId] = new Set(runEvents.map(event => event.runId));
+        expect(runEvents.every(event => event.runId === runId && event.taskId === 'task-1' && !isNaN(Date.parse(event.timestamp)))).toBe(true);
+        const outcomes = runEvents.filter(event => ['task.retrying', 'task.completed', 'task.failed'].includes(event.eventName));
+        expect(outcomes.map(event => [event.eventName, event.attempt])).toEqual([['task.retrying', 1], ['task.completed', 2]]);
+        expect(outcomes[1].payload).toEqual(status);
+        expect(runEvents.find(event => event.eventName === 'data.fetched').payload.data).toEqual([{ id: 'item-1', content: 'hello' }]);
+    });
+
+    it('tags the log lines plugins write during a run with the run ids', async () => {
+        const lines: Array<{ bindings: any, message: string }> = [];
+        vi.spyOn(logger, 'child').mockImplementation((bindings: any) => ({ ...logger, info: (message: string) => lines.push({ bindings, message }) }));
+        const manager = createManager();
+        await manager.scheduleTask(taskDefinition());
+        sourceBehaviour = async () => {
+            runLogger.info('Fetching page');
+            return succeed();
+        };
+        const completed = manager.getEventBus().waitFor('task.completed', undefined, 5000);
+
+        await manager.triggerManualTask(ctx, 'task-1');
+        const { runId } = await completed;
+
+        expect(lines).toContainEqual({ bindings: { runId, taskId: 'task-1', attempt: 1 }, message: 'Fetching page' });
+        runLogger.info('Outside a run');
+        expect(lines.map(line => line.message)).not.toContain('Outside a run');
+    });
+});
+
+describe('task templates', () => {
+    const crawlTemplate = (depthDefault: number = 1): any => ({
+        id: 'crawl',
+        parameters: {
+            required: ['url'],
+            properties: { url: { type: 'string' }, depth: { type: 'integer', minimum: 0, default: depthDefault } },
+        },
+        task: {
+            name: 'Crawl ${params.url}',
+            trigger: { type: 'manual' },
+            source: { pluginType: 'test-source', config: { url: '${params.url}', depth: '${params.depth}' } },
+        },
+    });
+
+    it('renders instances with the parameter defaults filled in and typed values kept', async () => {
+        const manager = createManager();
+        await manager.registerTemplate(crawlTemplate());
+
+        expect(await manager.instantiateTemplate('crawl', 'docs', { url: 'https://docs.example.com' })).toMatchObject({ success: true });
+
+        expect(manager.getTask('docs')).toMatchObject({
+            name: 'Crawl https://docs.example.com',
+            enabled: true,
+            source: { config: { url: 'https://docs.example.com', depth: 1 } },
+            template: { id: 'crawl', params: { url: 'https://docs.example.com' } },
+        });
+        const invalid = await manager.instantiateTemplate('crawl', 'blog', { depth: -1, extra: true });
+        expect(invalid).toMatchObject({ success: false, code: 400 });
+        expect(invalid.data.errors).toEqual(['params.url is required.', 'params.depth must be >= 0, got -1.', 'params.extra is not a known setting.']);
+    });
+
+    it('re-renders every instance when the template is replaced, keeping their parameters and enabled state', async () => {
+        const manager = createManager();
+        await manager.registerTemplate(crawlTemplate());
+        await manager.instantiateTemplate('crawl', 'docs', { url: 'https://docs.example.com' });
+        await manager.instantiateTemplate('crawl', 'blog', { url: 'https://blog.example.com', depth: 4 }, { enabled: false });
+
+        const result = await manager.registerTemplate(crawlTemplate(3));
+
+        expect(result).toMatchObject({ success: true, data: { instanceIds: ['docs', 'blog'] } });
+        expect(manager.getTask('docs')!.source.config.depth).toBe(3);
+        expect(manager.getTask('blog')).toMatchObject({ enabled: false, source: { config: { depth: 4 } } });
+    });
+
+    it('rejects templates referencing undeclared parameters and keeps templates that still have instances', async () => {
+        const manager = createManager();
+        const broken = crawlTemplate();
+        broken.task.name = 'Crawl ${params.site}';
+
+        expect(await manager.registerTemplate(broken)).toMatchObject({ success: false, code: 400, data: { errors: ["Template 'crawl' references undeclared parameter 'site'."] } });
+
+        await manager.registerTemplate(crawlTemplate());
+        await manager.instantiateTemplate('crawl', 'docs', { url: 'https://docs.example.com' });
+        expect(await manager.deleteTemplate('crawl')).toMatchObject({ success: false, code: 409, data: { instanceIds: ['docs'] } });
+        await manager.deleteTask('docs');
+        expect(await manager.deleteTemplate('crawl')).toMatchObject({ success: true });
+    });
+});
+
+describe('namespaces', () => {
+    function createNamespaceManager() {
+        const manager = createManager({ namespaces: { 'team-a': { allowedSourceTypes: ['test-source'], outputRoot: path.join(os.tmpdir(), 'team-a') } } });
+        manager.registerSource('other-source', TestSource as any, identity);
+        manager.registerDestination('test-destination', TestDestination);
+        return manager;
+    }
+
+    it('qualifies task ids with their namespace, so the same id can be used in each namespace', async () => {
+        const manager = createNamespaceManager();
+
+        expect(await manager.scheduleTask(taskDefinition({ id: 'crawl' }))).toMatchObject({ success: true });
+        expect(await manager.scheduleTask(taskDefinition({ id: 'crawl', namespace: 'team-a' }))).toMatchObject({ success: true });
+        expect(await manager.scheduleTask(taskDefinition({ id: 'team-a/crawl', namespace: 'team-a' }))).toMatchObject({ success: false });
+        expect(await manager.scheduleTask(taskDefinition({ id: 'team-b/crawl', namespace: 'team-a' }))).toMatchObject({ success: false, code: 400 });
+
+        expect(manager.listTasks('team-a').map(task => task.id)).toEqual(['team-a/crawl']);
+        expect(manager.listTasks('default').map(task => task.id)).toEqual(['crawl']);
+        expect(manager.listNamespaces()).toEqual(['default', 'team-a']);
+        expect(await manager.updateTask('team-a/crawl', { namespace: 'team-b' })).toMatchObject({ success: false, code: 400 });
+    });
+
+    it('only allows the source types of the namespace, also for tasks scheduled before the config changed', async () => {
+        const manager = createNamespaceManager();
+
+        const rejected = await manager.scheduleTask(taskDefinition({ namespace: 'team-a', source: { pluginType: 'other-source', config: {} } }));
+        expect(rejected).toMatchObject({ success: false, code: 400 });
+        expect(rejected.data.errors).toEqual(["Source plugin 'other-source' is not allowed in namespace 'team-a' (allowed: test-source)."]);
+
+        await manager.scheduleTask(taskDefinition({ namespace: 'team-a' }));
+        manager.setNamespaceConfig('team-a', { allowedSourceTypes: ['other-source'] });
+        expect(await manager.triggerManualTask(ctx, 'team-a/task-1')).toMatchObject({ success: false, code: 403 });
+        expect(sourceInstances).toBe(0);
+    });
+
+    it("resolves destination output paths inside the namespace's outputRoot and rejects paths that leave it", async () => {
+        const manager = createNamespaceManager();
+
+        const escaping = await manager.scheduleTask(taskDefinition({ namespace: 'team-a', destination: { pluginType: 'test-destination', config: { outputPath: '../team-b' } } }));
+        expect(escaping).toMatchObject({ success: false, code: 400 });
+        expect(escaping.data.errors).toEqual(["destination.config.outputPath '../team-b' must be a relative path inside the namespace's outputRoot."]);
+
+        await manager.scheduleTask(taskDefinition({ namespace: 'team-a', destination: { pluginType: 'test-destination', config: { outputPath: 'docs' } } }));
+        await manager.triggerManualTask(ctx, 'team-a/task-1');
+        expect(processedBatches[0].config.outputPath).toBe(path.join(os.tmpdir(), 'team-a', 'docs'));
+        // The stored definition keeps the path as it was given
+        expect(manager.getTask('team-a/task-1')!.destination!.config.outputPath).toBe('docs');
+    });
+
+    it('rejects invalid namespace names and configs', async () => {
+        const manager = createNamespaceManager();
+
+        expect(await manager.scheduleTask(taskDefinition({ namespace: 'Team A' }))).toMatchObject({ success: false, code: 400 });
+        expect(manager.setNamespaceConfig('team-b', { maxConcurrentRuns: 0, outputRoot: '' })).toMatchObject({
+            success: false,
+            code: 400,
+            data: { errors: ["Namespace 'team-b': maxConcurrentRuns must be a positive integer.", "Namespace 'team-b': outputRoot must be a directory path."] },
+        });
+    });
+});
@@ -0,0 +1,103 @@
+// __tests__/IngestionEventBus.test.ts
+
+vi.mock('@godspeedsystems/core', () => import('./helpers/godspeedCore'));
+
+import { IngestionEventBus } from '../src/functions/ingestion/IngestionEventBus';
+import { createEventEnvelope } from '../src/functions/ingestion/RunContext';
+import { IngestionEvents } from '../src/functions/ingestion/interfaces';
+import { logger } from './helpers/godspeedCore';
+
+const status = (message: string) => ({ success: true, message });
+
+describe('IngestionEventBus', () => {
+    let bus: IngestionEventBus;
+
+    beforeEach(() => {
+        bus = new IngestionEventBus();
+    });
+
+    it("matches one segment with '*' and any number of segments with '**'", () => {
+        const received: { [pattern: string]: string[] } = { 'task.*': [], '*.completed': [], '**': [], 'task.completed': [] };
+        for (const pattern of Object.keys(received)) {
+            bus.on(pattern as any, (_event, eventName) => received[pattern].push(eventName));
+        }
+
+        bus.emit(IngestionEvents.TASK_COMPLETED, createEventEnvelope('task-1', status('done')));
+        bus.emit(IngestionEvents.DATA_FETCHED, createEventEnvelope('task-1', { data: [] }));
+        bus.emit(IngestionEvents.QUEUE_UPDATED, createEventEnvelope(undefined, { concurrency: 1, active: 0, queueDepth: 0 }));
+
+        expect(received).toEqual({
+            'task.*': ['task.completed'],
+            '*.completed': ['task.completed'],
+            '**': ['task.completed', 'data.fetched', 'queue.updated'],
+            'task.completed': ['task.completed'],
+        });
+    });
+
+    it('delivers once listeners a single time and stops delivering after off or unsubscribe', () => {
+        const calls: string[] = [];
+        const listener = () => calls.push('on');
+        bus.once('task.failed', () => calls.push('once'));
+        bus.on('task.failed', listener);
+        const unsubscribe = bus.on('task.*', () => calls.push('wildcard'));
+
+        bus.emit(IngestionEvents.TASK_FAILED, createEventEnvelope('task-1', status('failed')));
+        bus.off('task.failed', listener);
+        unsubscribe();
+        bus.emit(IngestionEvents.TASK_FAILED, createEventEnvelope('task-1', status('failed')));
+
+        expect(calls).toEqual(['once', 'on', 'wildcard']);
+        expect(bus.listenerCount()).toBe(0);
+    });
+
+    it('keeps delivering to other listeners when one throws', () => {
+        const received: string[] = [];
+        bus.on('task.completed', () => { throw new Error('listener failed'); });
+        bus.on('task.completed', event => received.push(event.payload.message!));
+
+        expect(() => bus.emit(IngestionEvents.TASK_COMPLETED, createEventEnvelope('task-1', status('done')))).not.toThrow();
+        expect(received).toEqual(['done']);
+    });
+
+    it('subscribes deprecated underscore names to their dotted event and warns once', () => {
+        const warn = vi.spyOn(logger, 'warn');
+        const received: string[] = [];
+        const listener = (event: any, eventName: string) => received.push(`${eventName}:${event.payload.message}`);
+        bus.on('task_completed', listener);
+        bus.on('task_completed', listener);
+
+        bus.emit(IngestionEvents.TASK_COMPLETED, createEventEnvelope('task-1', status('done')));
+        bus.off('task_completed', listener);
+
+        expect(received).toEqual(['task.completed:done', 'task.completed:done']);
+        expect(bus.listenerCount('task_completed')).toBe(1);
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(warn.mock.calls[0][0]).toContain("Subscribe to 'task.completed' instead");
+    });
+
+    describe('waitFor', () => {
+        it('resolves with the first matching event for which the predicate holds', async () => {
+            const waiting = bus.waitFor('task.*', event => event.taskId === 'task-2', 1000);
+
+            bus.emit(IngestionEvents.TASK_COMPLETED, createEventEnvelope('task-1', status('first')));
+            bus.emit(IngestionEvents.TASK_FAILED, createEventEnvelope('task-2', status('second')));
+
+            expect(await waiting).toMatchObject({ taskId: 'task-2', payload: { message: 'second' } });
+            expect(bus.listenerCount()).toBe(0);
+        });
+
+        it('rejects and removes its listener when the timeout passes', async () => {
+            await expect(bus.waitFor('task.completed', undefined, 10)).rejects.toThrow("Timed out after 10ms waiting for 'task.completed'.");
+            expect(bus.listenerCount()).toBe(0);
+        });
+
+        it('rejects with the error of a predicate that throws and removes its listener', async () => {
+            const waiting = bus.waitFor('task.completed', () => { throw new Error('bad predicate'); }, 1000);
+
+            bus.emit(IngestionEvents.TASK_COMPLETED, createEventEnvelope('task-1', status('done')));
+
+            await expect(waiting).rejects.toThrow('bad predicate');
+            expect(bus.listenerCount()).toBe(0);
+        });
+    });
+});
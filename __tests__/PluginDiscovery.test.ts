@@ -0,0 +1,83 @@
+// __tests__/PluginDiscovery.test.ts
+
+vi.mock('@godspeedsystems/core', () => import('./helpers/godspeedCore'));
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { GlobalIngestionLifecycleManager } from '../src/functions/GlobalIngestionLifecycleManager';
+import { discoverPlugins } from '../src/functions/ingestion/PluginDiscovery';
+
+const defaultTransformer = async (data: any[]) => data;
+
+describe('discoverPlugins', () => {
+    let directory: string;
+
+    const writeModule = async (subdirectory: string, fileName: string, content: string) => {
+        await fs.mkdir(path.join(directory, subdirectory), { recursive: true });
+        await fs.writeFile(path.join(directory, subdirectory, fileName), content, 'utf8');
+    };
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'plugin-discovery-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('registers sources, destinations and transformers with their schemas and defaults', async () => {
+        await writeModule('sources', 'docs-crawler.ts', `
+export const Type = 'docs-crawler';
+export const CONFIG_SCHEMA = { type: 'object', required: ['url'] };
+export const DEFAULT_CONFIG = { depth: 2 };
+export class DataSource {}
+`);
+        await writeModule('destinations', 'SearchDestinationAdapter.ts', `
+export const Type = 'search-destination';
+export const CONFIG_SCHEMA = { type: 'object', additionalProperties: false };
+export class SearchDestinationAdapter {
+    async init() {}
+    async processData() { return { success: true }; }
+}
+`);
+        await writeModule('transformers', 'strip-html-transformer.ts', 'export default async function stripHtml(data: any[]) { return data; }\n');
+        const manager = new GlobalIngestionLifecycleManager();
+        const registerSource = vi.spyOn(manager, 'registerSource');
+        const registerDestination = vi.spyOn(manager, 'registerDestination');
+        const registerTransformer = vi.spyOn(manager, 'registerTransformer');
+        const docsTransformer = async (data: any[]) => data;
+
+        const discovered = await discoverPlugins(manager, {
+            sourceDirectory: path.join(directory, 'sources'),
+            destinationDirectory: path.join(directory, 'destinations'),
+            transformerDirectory: path.join(directory, 'transformers'),
+            transformers: { 'docs-crawler': docsTransformer },
+            defaultTransformer,
+        });
+
+        expect(discovered.map(plugin => `${plugin.kind}:${plugin.type}`)).toEqual(['source:docs-crawler', 'destination:search-destination', 'transformer:strip-html']);
+        expect(registerSource).toHaveBeenCalledWith('docs-crawler', expect.any(Function), docsTransformer, { type: 'object', required: ['url'] }, { depth: 2 });
+        expect(registerDestination).toHaveBeenCalledWith('search-destination', expect.any(Function), { type: 'object', additionalProperties: false });
+        expect(registerTransformer).toHaveBeenCalledWith('strip-html', expect.any(Function));
+    });
+
+    it('skips modules that do not export a plugin or fail to load, and registers the others', async () => {
+        await writeModule('sources', 'a-helpers.ts', 'export const retries = 3;\n');
+        await writeModule('sources', 'b-broken.ts', "throw new Error('cannot load');\n");
+        await writeModule('sources', 'c-crawler.ts', "export const Type = 'c-crawler';\nexport class DataSource {}\n");
+        await writeModule('sources', 'types.d.ts', 'export declare const Type: string;\n');
+        await writeModule('destinations', 'NotADestinationAdapter.ts', "export const Type = 'not-a-destination';\nexport class Helper { run() {} }\n");
+        const manager = new GlobalIngestionLifecycleManager();
+        const registerSource = vi.spyOn(manager, 'registerSource');
+
+        const discovered = await discoverPlugins(manager, {
+            sourceDirectory: path.join(directory, 'sources'),
+            destinationDirectory: path.join(directory, 'destinations'),
+            defaultTransformer,
+        });
+
+        expect(discovered).toEqual([{ kind: 'source', type: 'c-crawler', file: path.join(directory, 'sources', 'c-crawler.ts') }]);
+        expect(registerSource).toHaveBeenCalledWith('c-crawler', expect.any(Function), defaultTransformer, undefined, undefined);
+    });
+});
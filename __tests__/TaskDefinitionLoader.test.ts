@@ -0,0 +1,160 @@
+// __tests__/TaskDefinitionLoader.test.ts
+
+vi.mock('@godspeedsystems/core', () => import('./helpers/godspeedCore'));
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { GlobalIngestionLifecycleManager } from '../src/functions/GlobalIngestionLifecycleManager';
+import { TaskDefinitionLoader } from '../src/functions/ingestion/TaskDefinitionLoader';
+import { InMemoryTaskStore } from '../src/functions/ingestion/TaskStore';
+import { diffTaskDefinition } from '../src/functions/ingestion/TaskTemplates';
+
+class TestSource {
+    async initClient() {}
+    async execute() {
+        return { success: true, data: { data: [] } };
+    }
+}
+
+function createManager(taskStore = new InMemoryTaskStore()) {
+    const manager = new GlobalIngestionLifecycleManager({ taskStore });
+    manager.registerSource('test-source', TestSource as any, async data => data);
+    return manager;
+}
+
+const crawlTask = (id: string, extra: string = '') => `
+- id: ${id}
+  name: Crawl ${id}
+  trigger: { type: manual }
+  source:
+    pluginType: test-source
+    config:
+      url: https://example.com/${id}${extra}
+`;
+
+describe('TaskDefinitionLoader', () => {
+    let directory: string;
+    let loader: TaskDefinitionLoader | undefined;
+
+    const writeTaskFile = (fileName: string, content: string) => fs.writeFile(path.join(directory, fileName), content, 'utf8');
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'ingestion-tasks-'));
+    });
+
+    afterEach(async () => {
+        loader?.close();
+        loader = undefined;
+        delete process.env.CRAWL_TOKEN;
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('schedules the tasks of every file, with environment variables and namespaces applied', async () => {
+        process.env.CRAWL_TOKEN = 'secret';
+        await writeTaskFile('a.yaml', crawlTask('docs', '\n      token: ${env.CRAWL_TOKEN}'));
+        await writeTaskFile('b.yml', crawlTask('blog') + '  namespace: team-a\n');
+        const manager = createManager();
+        loader = new TaskDefinitionLoader(manager, { directory, watch: false });
+
+        await loader.load();
+
+        expect(manager.getTask('docs')).toMatchObject({ enabled: true, source: { config: { token: 'secret' } }, sourceFile: path.join(directory, 'a.yaml') });
+        expect(manager.getTask('team-a/blog')).toMatchObject({ namespace: 'team-a' });
+    });
+
+    it('skips a file that fails validation and still loads the others', async () => {
+        await writeTaskFile('bad.yaml', '- id: broken\n  name: Broken\n');
+        await writeTaskFile('good.yaml', crawlTask('docs'));
+        const manager = createManager();
+        loader = new TaskDefinitionLoader(manager, { directory, watch: false });
+
+        await loader.load();
+
+        expect(manager.listTasks().map(task => task.id)).toEqual(['docs']);
+    });
+
+    it('applies changed settings, keeps run state and deletes removed tasks while watching', async () => {
+        await writeTaskFile('tasks.yaml', crawlTask('docs') + crawlTask('blog'));
+        const manager = createManager();
+        loader = new TaskDefinitionLoader(manager, { directory, debounceMs: 20 });
+        await loader.load();
+        await manager.triggerManualTask({} as any, 'docs');
+        const lastRun = manager.getTask('docs')!.lastRun;
+
+        const updated = manager.getEventBus().waitFor('task.updated', undefined, 5000);
+        const deleted = manager.getEventBus().waitFor('task.deleted', undefined, 5000);
+        await writeTaskFile('tasks.yaml', crawlTask('docs', '\n  priority: 5'));
+        await Promise.all([updated, deleted]);
+
+        expect(manager.getTask('docs')).toMatchObject({ priority: 5, lastRun });
+        expect(manager.getTask('blog')).toBeUndefined();
+    });
+
+    it('deletes restored tasks whose file was removed while the app was not running', async () => {
+        const taskStore = new InMemoryTaskStore();
+        const previousRun = createManager(taskStore);
+        await writeTaskFile('kept.yaml', crawlTask('kept'));
+        await writeTaskFile('removed.yaml', crawlTask('removed'));
+        await writeTaskFile('broken.yaml', crawlTask('broken'));
+        await new TaskDefinitionLoader(previousRun, { directory, watch: false }).load();
+        await previousRun.scheduleTask({ id: 'api-task', name: 'Created through the API', enabled: true, trigger: { type: 'manual' }, source: { pluginType: 'test-source', config: {} } });
+
+        await fs.rm(path.join(directory, 'removed.yaml'));
+        await writeTaskFile('broken.yaml', '- id: broken\n  name: [unclosed');
+        const manager = createManager(taskStore);
+        await manager.init();
+        loader = new TaskDefinitionLoader(manager, { directory, watch: false });
+        await loader.load();
+
+        // Tasks of a file that cannot be read are kept until it is fixed; API tasks are not the loader's
+        expect(manager.listTasks().map(task => task.id).sort()).toEqual(['api-task', 'broken', 'kept']);
+    });
+
+    it('registers templates before instances, whichever file they are in', async () => {
+        await writeTaskFile('a-instances.yaml', `
+- id: docs
+  template: crawl
+  params: { url: 'https://docs.example.com' }
+`);
+        await writeTaskFile('z-templates.yaml', `
+- kind: template
+  id: crawl
+  parameters:
+    required: [url]
+    properties:
+      url: { type: string }
+  task:
+    name: Crawl \${params.url}
+    trigger: { type: manual }
+    source:
+      pluginType: test-source
+      config: { url: '\${params.url}' }
+`);
+        const manager = createManager();
+        loader = new TaskDefinitionLoader(manager, { directory, watch: false });
+
+        await loader.load();
+
+        expect(manager.getTask('docs')).toMatchObject({
+            name: 'Crawl https://docs.example.com',
+            template: { id: 'crawl' },
+            sourceFile: path.join(directory, 'a-instances.yaml'),
+        });
+    });
+
+    it('sees no change in a definition whose keys were only reordered', async () => {
+        await writeTaskFile('tasks.yaml', crawlTask('docs', '\n      headers: { accept: text/html, user-agent: crawler }'));
+        const manager = createManager();
+        loader = new TaskDefinitionLoader(manager, { directory, watch: false });
+        await loader.load();
+
+        const reordered = {
+            source: { config: { headers: { 'user-agent': 'crawler', accept: 'text/html' }, url: 'https://example.com/docs' }, pluginType: 'test-source' },
+            trigger: { type: 'manual' },
+            name: 'Crawl docs',
+            id: 'docs',
+        };
+        expect(diffTaskDefinition(manager.getTask('docs')!, reordered as any)).toEqual({});
+    });
+});
@@ -0,0 +1,109 @@
+// __tests__/TaskStore.test.ts
+
+vi.mock('@godspeedsystems/core', () => import('./helpers/godspeedCore'));
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FileTaskStore, InMemoryTaskStore } from '../src/functions/ingestion/TaskStore';
+import { IngestionRunRecord, IngestionTaskDefinition, IngestionTaskStatus } from '../src/functions/ingestion/interfaces';
+
+const task: IngestionTaskDefinition = {
+    id: 'team-a/daily-crawl',
+    namespace: 'team-a',
+    name: 'Daily crawl',
+    enabled: true,
+    trigger: { type: 'cron', expression: '0 3 * * *' },
+    source: { pluginType: 'http-crawler', config: { url: 'https://example.com' } },
+    currentStatus: IngestionTaskStatus.COMPLETED,
+    lastRun: new Date('2025-07-24T03:00:00.000Z'),
+    nextRun: new Date('2025-07-25T03:00:00.000Z'),
+};
+
+function runRecord(runId: string, startedAt: string): IngestionRunRecord {
+    return {
+        runId,
+        taskId: task.id,
+        triggerType: 'cron',
+        attempt: 1,
+        status: IngestionTaskStatus.COMPLETED,
+        startedAt: new Date(startedAt),
+        finishedAt: new Date(new Date(startedAt).getTime() + 1000),
+        itemsFetched: 1,
+        itemsTransformed: 1,
+        itemsProcessed: 1,
+        stageDurationsMs: {},
+    };
+}
+
+describe('FileTaskStore', () => {
+    let directory: string;
+    let filePath: string;
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'task-store-'));
+        filePath = path.join(directory, 'state', 'tasks.json');
+    });
+
+    afterEach(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('round-trips tasks and run history through the state file, reviving dates', async () => {
+        const store = new FileTaskStore({ filePath });
+        await store.saveTask(task);
+        await store.appendRunRecord(runRecord('run-1', '2025-07-23T03:00:00.000Z'));
+        await store.appendRunRecord(runRecord('run-2', '2025-07-24T03:00:00.000Z'));
+
+        const reopened = new FileTaskStore({ filePath });
+        const [loaded] = await reopened.loadTasks();
+        expect(loaded).toEqual(task);
+        expect(loaded.lastRun).toBeInstanceOf(Date);
+
+        const runs = await reopened.getRunRecords(task.id);
+        expect(runs.map(run => run.runId)).toEqual(['run-2', 'run-1']);
+        expect(runs[0].startedAt).toBeInstanceOf(Date);
+        expect((await reopened.getRunRecords(task.id, { since: new Date('2025-07-24T00:00:00.000Z') })).map(run => run.runId)).toEqual(['run-2']);
+        expect((await reopened.getRunRecords(task.id, { limit: 1 })).map(run => run.runId)).toEqual(['run-2']);
+    });
+
+    it('keeps only maxRunsPerTask run records', async () => {
+        const store = new FileTaskStore({ filePath, maxRunsPerTask: 2 });
+        for (const day of [21, 22, 23]) {
+            await store.appendRunRecord(runRecord(`run-${day}`, `2025-07-${day}T03:00:00.000Z`));
+        }
+        expect((await store.getRunRecords(task.id)).map(run => run.runId)).toEqual(['run-23', 'run-22']);
+    });
+
+    it('deletes a task together with its run history', async () => {
+        const store = new FileTaskStore({ filePath });
+        await store.saveTask(task);
+        await store.appendRunRecord(runRecord('run-1', '2025-07-24T03:00:00.000Z'));
+        await store.deleteTask(task.id);
+
+        const reopened = new FileTaskStore({ filePath });
+        expect(await reopened.loadTasks()).toEqual([]);
+        expect(await reopened.getRunRecords(task.id)).toEqual([]);
+    });
+
+    it('refuses to overwrite a state file it cannot parse', async () => {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, '{ "tasks": ', 'utf8');
+        const store = new FileTaskStore({ filePath });
+
+        await expect(store.loadTasks()).rejects.toThrow('unreadable');
+        await expect(store.saveTask(task)).rejects.toThrow('unreadable');
+        expect(await fs.readFile(filePath, 'utf8')).toBe('{ "tasks": ');
+    });
+});
+
+describe('InMemoryTaskStore', () => {
+    it('returns copies, so later changes to a task do not leak into the store', async () => {
+        const store = new InMemoryTaskStore();
+        const copy = { ...task };
+        await store.saveTask(copy);
+        copy.name = 'Changed';
+        const [loaded] = await store.loadTasks();
+        expect(loaded.name).toBe('Daily crawl');
+    });
+});
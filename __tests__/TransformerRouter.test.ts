@@ -0,0 +1,104 @@
+// __tests__/TransformerRouter.test.ts
+
+vi.mock('@godspeedsystems/core', () => import('./helpers/godspeedCore'));
+
+import { createRoutingTransformer, RouterParams, validateRouterParams } from '../src/functions/ingestion/TransformerRouter';
+import { IngestionData, IngestionDataTransformer } from '../src/functions/ingestion/interfaces';
+
+const item = (id: string, extra: Partial<IngestionData> = {}): IngestionData => ({ id, content: id, ...extra });
+
+// Transformers that tag every item with their name, so the route an item took can be read from it
+const tag = (name: string): IngestionDataTransformer => async (data, _payload, params) =>
+    data.map(entry => ({ ...entry, route: [...(entry.route || []), params?.label ?? name] }));
+
+const registry: { [name: string]: IngestionDataTransformer } = { pdf: tag('pdf'), text: tag('text'), fallback: tag('fallback') };
+const lookup = (name: string) => registry[name];
+
+describe('createRoutingTransformer', () => {
+    const route = createRoutingTransformer(lookup);
+    registry.route = route;
+
+    it('sends each item to the first route it matches, by mime type, extension or metadata', async () => {
+        const params: RouterParams = {
+            routes: [
+                { when: { mimeType: 'application/pdf' }, transformers: [{ name: 'pdf' }] },
+                { when: { mimeType: 'text/*' }, transformers: [{ name: 'text' }] },
+                { when: { extension: ['md', '.PDF'] }, transformers: [{ name: 'text', params: { label: 'by-extension' } }] },
+                { when: { metadata: { 'owner.team': ['docs', 'blog'] } }, transformers: [{ name: 'text', params: { label: 'by-metadata' } }] },
+            ],
+        };
+        const items = [
+            item('pdf', { metadata: { mimeType: 'application/pdf', filename: 'a.md' } }),
+            item('html', { metadata: { mimeType: 'text/html; charset=utf-8' } }),
+            item('readme', { metadata: { relativePath: 'docs/README.md' } }),
+            item('report', { url: 'https://example.com/files/report.pdf?version=2' }),
+            item('team', { metadata: { owner: { team: 'blog' } } }),
+        ];
+
+        const result = await route(items, {}, params);
+
+        expect(Object.fromEntries(result.map(entry => [entry.id, entry.route]))).toEqual({
+            pdf: ['pdf'],
+            html: ['text'],
+            readme: ['by-extension'],
+            report: ['by-extension'],
+            team: ['by-metadata'],
+        });
+    });
+
+    it('returns the results grouped by route in route order, then the unmatched items', async () => {
+        const params: RouterParams = {
+            routes: [
+                { when: { extension: '.pdf' }, transformers: [{ name: 'pdf' }] },
+                { when: { extension: '.txt' }, transformers: [] },
+            ],
+        };
+        const items = [item('a.txt', { url: 'a.txt' }), item('b.bin', { url: 'b.bin' }), item('c.pdf', { url: 'c.pdf' }), item('d.txt', { url: 'd.txt' })];
+
+        const result = await route(items, {}, params);
+
+        expect(result.map(entry => entry.id)).toEqual(['c.pdf', 'a.txt', 'd.txt', 'b.bin']);
+        // Routes without transformers and unmatched items without a default pass through unchanged
+        expect(result.slice(1)).toEqual([items[0], items[3], items[1]]);
+    });
+
+    it('runs the default sub-pipeline on unmatched items, and routes can nest another router', async () => {
+        const params: RouterParams = {
+            routes: [{
+                when: { mimeType: 'text/*' },
+                transformers: [{ name: 'route', params: { routes: [{ when: { mimeType: 'text/html' }, transformers: [{ name: 'text' }] }] } }],
+            }],
+            default: [{ name: 'fallback' }],
+        };
+
+        const result = await route([item('html', { metadata: { mimeType: 'text/html' } }), item('csv', { metadata: { mimeType: 'text/csv' } }), item('bin')], {}, params);
+
+        expect(result.map(entry => [entry.id, entry.route])).toEqual([['html', ['text']], ['csv', undefined], ['bin', ['fallback']]]);
+    });
+
+    it('fails when a sub-pipeline names a transformer that is not registered', async () => {
+        await expect(route([item('a')], {}, { routes: [], default: [{ name: 'missing' }] })).rejects.toThrow("Transformer 'missing' not registered.");
+    });
+});
+
+describe('validateRouterParams', () => {
+    it('reports invalid routes, conditions and unregistered transformers, including nested routers', () => {
+        const isRegistered = (name: string) => name in registry || name === 'route';
+
+        expect(validateRouterParams(undefined, isRegistered)).toEqual(['params.routes must be a list of { when, transformers } routes.']);
+        expect(validateRouterParams({
+            routes: [
+                { when: {}, transformers: [{ name: 'pdf' }] },
+                { when: { metadata: ['x'] }, transformers: 'pdf' },
+                { when: { extension: '.md' }, transformers: [{ name: 'route', params: { routes: [{ when: { mimeType: 'text/*' }, transformers: [{ name: 'missing' }] }] } }] },
+            ],
+            default: [{}],
+        }, isRegistered)).toEqual([
+            'params.routes[0].when must set at least one of mimeType, extension or metadata.',
+            'params.routes[1].when.metadata must map metadata paths to expected values.',
+            'params.routes[1].transformers must be a list of { name, params } steps.',
+            "params.routes[2].transformers[0].params.routes[0].transformers[0]: transformer 'missing' is not registered.",
+            'params.default[0].name is required.',
+        ]);
+    });
+});
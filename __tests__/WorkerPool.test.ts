@@ -0,0 +1,99 @@
+// __tests__/WorkerPool.test.ts
+
+vi.mock('@godspeedsystems/core', () => import('./helpers/godspeedCore'));
+
+import { WorkerPool } from '../src/functions/ingestion/WorkerPool';
+import { IngestionEventBus } from '../src/functions/ingestion/IngestionEventBus';
+
+// A job that stays running until release() is called
+function deferredJob(started: string[], name: string) {
+    let release!: () => void;
+    const done = new Promise<void>(resolve => { release = resolve; });
+    const job = async () => {
+        started.push(name);
+        await done;
+        return name;
+    };
+    return { job, release: () => release() };
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('WorkerPool', () => {
+    it('runs at most `concurrency` jobs at once', async () => {
+        const pool = new WorkerPool(2, new IngestionEventBus());
+        const started: string[] = [];
+        const jobs = ['a', 'b', 'c'].map(name => deferredJob(started, name));
+        const results = jobs.map((job, index) => pool.submit(`task-${index}`, 0, job.job));
+        await flush();
+
+        expect(started).toEqual(['a', 'b']);
+        expect(pool.getStats()).toEqual({ concurrency: 2, active: 2, queueDepth: 1 });
+
+        jobs[0].release();
+        await flush();
+        expect(started).toEqual(['a', 'b', 'c']);
+
+        jobs[1].release();
+        jobs[2].release();
+        await expect(Promise.all(results)).resolves.toEqual(['a', 'b', 'c']);
+        expect(pool.getStats().active).toBe(0);
+    });
+
+    it('starts queued jobs by priority, then in submission order', async () => {
+        const pool = new WorkerPool(1, new IngestionEventBus());
+        const started: string[] = [];
+        const blocker = deferredJob(started, 'blocker');
+        const pending = [pool.submit('blocker', 0, blocker.job)];
+        for (const [name, priority] of [['low', 0], ['high', 5], ['low-2', 0], ['high-2', 5]] as const) {
+            pending.push(pool.submit(name, priority, async () => { started.push(name); return name; }));
+        }
+        await flush();
+        expect(pool.isQueued('high')).toBe(true);
+
+        blocker.release();
+        await Promise.all(pending);
+        expect(started).toEqual(['blocker', 'high', 'high-2', 'low', 'low-2']);
+    });
+
+    it('rejects with the error of a failed job and frees its slot', async () => {
+        const pool = new WorkerPool(1, new IngestionEventBus());
+        await expect(pool.submit('failing', 0, async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+        await expect(pool.submit('next', 0, async () => 'ok')).resolves.toBe('ok');
+    });
+
+    it('publishes queue events, except for silent jobs', async () => {
+        const eventBus = new IngestionEventBus();
+        const events: string[] = [];
+        eventBus.on('**', (event, eventName) => events.push(`${eventName}:${event.taskId}`));
+        const pool = new WorkerPool(1, eventBus);
+
+        await pool.submit('preview', 0, async () => 'ok', { silent: true });
+        await flush();
+        expect(events).toEqual([]);
+
+        await pool.submit('crawl', 0, async () => 'ok');
+        await flush();
+        expect(events).toEqual(['task.queued:crawl', 'queue.updated:undefined', 'task.dequeued:crawl', 'queue.updated:undefined', 'queue.updated:undefined']);
+    });
+
+    it("keeps a namespace within its limit and lets other namespaces' jobs pass its queued ones", async () => {
+        const pool = new WorkerPool(3, new IngestionEventBus());
+        pool.setNamespaceLimit('team-a', 1);
+        const started: string[] = [];
+        const jobs = ['a-1', 'a-2', 'b-1'].map(name => deferredJob(started, name));
+        const results = jobs.map((job, index) => pool.submit(`task-${index}`, 0, job.job, { namespace: index < 2 ? 'team-a' : 'team-b' }));
+        await flush();
+
+        expect(started).toEqual(['a-1', 'b-1']);
+        expect(pool.getStats()).toEqual({ concurrency: 3, active: 2, queueDepth: 1 });
+
+        jobs[0].release();
+        await flush();
+        expect(started).toEqual(['a-1', 'b-1', 'a-2']);
+
+        jobs[1].release();
+        jobs[2].release();
+        await Promise.all(results);
+    });
+});
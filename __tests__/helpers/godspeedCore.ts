@@ -0,0 +1,26 @@
+// __tests__/helpers/godspeedCore.ts
+// Stand-in for '@godspeedsystems/core' in tests: vi.mock('@godspeedsystems/core', () => import('./helpers/godspeedCore'))
+
+const noop = () => undefined;
+
+export const logger: any = {
+    info: noop,
+    warn: noop,
+    error: noop,
+    debug: noop,
+    trace: noop,
+    fatal: noop,
+    child: () => logger,
+};
+
+export class GSStatus {
+    constructor(public success: boolean, public code?: number, public message?: string, public data?: any) {}
+}
+
+export class GSDataSource {
+    constructor(public config: any = {}) {}
+}
+
+export class GSContext {}
+export class GSCloudEvent {}
+export class GSActor {}
@@ -1,8 +1,10 @@
 // src/datasources/types/azure-blob-crawler.ts
 
-import { GSDataSource, GSContext, GSStatus, logger } from "@godspeedsystems/core";
+import { GSDataSource, GSContext, GSStatus } from "@godspeedsystems/core";
 import { BlobServiceClient, ContainerClient, BlobItem, StorageSharedKeyCredential } from "@azure/storage-blob"; // Added StorageSharedKeyCredential
 import { IngestionData } from '../../functions/ingestion/interfaces'; 
+import { JsonSchema } from '../../functions/ingestion/ConfigSchema';
+import { runLogger as logger } from '../../functions/ingestion/RunContext';
 
 export interface AzureBlobCrawlerConfig {
     connectionString?: string; 
@@ -99,9 +101,10 @@ export default class DataSource extends GSDataSource {
      *
      * @param ctx The Godspeed context.
      * @param initialPayload Optional payload, used for webhook data.
+     * @param signal Aborted when the ingestion run is cancelled or times out; in-flight listings and downloads are aborted with it.
      * @returns A GSStatus containing the ingested data.
      */
-    async execute(ctx: GSContext, initialPayload?: any): Promise<GSStatus> {
+    async execute(ctx: GSContext, initialPayload?: any, signal?: AbortSignal): Promise<GSStatus> {
         // FIX: Check readiness flag first. If not ready, return graceful error immediately.
         if (!this.isConfiguredAndReady || !this.containerClient) {
             logger.warn("AzureBlobCrawler: Attempted to execute but it is not configured or ready. Skipping operation.");
@@ -159,7 +162,7 @@ export default class DataSource extends GSDataSource {
 
                     if (eventType === 'Microsoft.Storage.BlobCreated' || eventType === 'Microsoft.Storage.BlobRenamed') {
                         try {
-                            const blobContent = await this._getBlobContent(this.containerClient, blobName);
+                            const blobContent = await this._getBlobContent(this.containerClient, blobName, signal);
                             ingestionData.push({
                                 id: blobUrl, 
                                 content: blobContent || '',
@@ -248,11 +251,14 @@ export default class DataSource extends GSDataSource {
             let totalBlobsListed = 0;
 
             try {
-                for await (const blobItem of this._listBlobs(this.containerClient, this.config.prefix)) { // containerClient is guaranteed to be defined here
+                for await (const blobItem of this._listBlobs(this.containerClient, this.config.prefix, signal)) { // containerClient is guaranteed to be defined here
+                    if (signal?.aborted) {
+                        break;
+                    }
                     totalBlobsListed++;
                     if (blobItem.name) {
                         try {
-                            const blobContent = await this._getBlobContent(this.containerClient, blobItem.name);
+                            const blobContent = await this._getBlobContent(this.containerClient, blobItem.name, signal);
                             ingestionData.push({
                                 id: `${this.config.containerName}/${blobItem.name}`,
                                 content: blobContent || '',
@@ -269,6 +275,9 @@ export default class DataSource extends GSDataSource {
                                 }
                             });
                         } catch (fetchError: any) {
+                            if (signal?.aborted) {
+                                break;
+                            }
                             logger.warn(`AzureBlobCrawler: Failed to fetch content for blob '${blobItem.name}': ${fetchError.message}`);
                             ingestionData.push({
                                 id: `${this.config.containerName}/${blobItem.name}-error`,
@@ -290,6 +299,10 @@ export default class DataSource extends GSDataSource {
                     }
                 }
 
+                if (signal?.aborted) {
+                    logger.warn(`AzureBlobCrawler: Scan of container '${this.config.containerName}' was cancelled after ${ingestionData.length} items.`);
+                    return new GSStatus(false, 499, "Azure Blob Storage scan cancelled", { crawledCount: ingestionData.length, data: ingestionData });
+                }
                 logger.info(`AzureBlobCrawler: Completed full scan. Listed ${totalBlobsListed} blobs and ingested ${ingestionData.length} items.`);
                 return new GSStatus(true, 200, "Azure Blob Storage container scan successful.", {
                     crawledCount: ingestionData.length,
@@ -297,6 +310,10 @@ export default class DataSource extends GSDataSource {
                 });
 
             } catch (error: any) {
+                if (signal?.aborted) {
+                    logger.warn(`AzureBlobCrawler: Scan of container '${this.config.containerName}' was cancelled after ${ingestionData.length} items.`);
+                    return new GSStatus(false, 499, "Azure Blob Storage scan cancelled", { crawledCount: ingestionData.length, data: ingestionData });
+                }
                 logger.error(`AzureBlobCrawler: Failed during standard Azure Blob scan: ${error.message}`, { error });
                 return new GSStatus(false, 500, `Azure Blob Storage scan failed: ${error.message}`);
             }
@@ -317,16 +334,16 @@ export default class DataSource extends GSDataSource {
         }, obj);
     }
 
-    private async *_listBlobs(containerClient: ContainerClient, prefix?: string): AsyncIterableIterator<BlobItem> {
-        for await (const blob of containerClient.listBlobsFlat({ prefix })) {
+    private async *_listBlobs(containerClient: ContainerClient, prefix?: string, signal?: AbortSignal): AsyncIterableIterator<BlobItem> {
+        for await (const blob of containerClient.listBlobsFlat({ prefix, abortSignal: signal })) {
             yield blob;
         }
     }
 
-    private async _getBlobContent(containerClient: ContainerClient, blobName: string): Promise<string | Buffer | undefined> {
+    private async _getBlobContent(containerClient: ContainerClient, blobName: string, signal?: AbortSignal): Promise<string | Buffer | undefined> {
         const blobClient = containerClient.getBlobClient(blobName);
         try {
-            const downloadBlockBlobResponse = await blobClient.download();
+            const downloadBlockBlobResponse = await blobClient.download(0, undefined, { abortSignal: signal });
             if (downloadBlockBlobResponse.readableStreamBody) {
                 const stream = downloadBlockBlobResponse.readableStreamBody;
                 return new Promise((resolve, reject) => {
@@ -363,10 +380,32 @@ const DEFAULT_CONFIG = {
     webhookEventTypePath: "eventType", 
 };
 
+const CONFIG_SCHEMA: JsonSchema = {
+    type: 'object',
+    additionalProperties: false,
+    required: ['containerName'],
+    properties: {
+        connectionString: { type: 'string', minLength: 1 },
+        accountName: { type: 'string', minLength: 1 },
+        accountKey: { type: 'string', minLength: 1 },
+        containerName: { type: 'string', minLength: 1 },
+        prefix: { type: 'string' },
+        webhookMode: { type: 'boolean' },
+        webhookBlobUrlPath: { type: 'string' },
+        webhookEventTypePath: { type: 'string' },
+    },
+    // Either a connection string or an account name/key pair
+    anyOf: [
+        { required: ['connectionString'] },
+        { required: ['accountName', 'accountKey'] },
+    ],
+};
+
 export {
     DataSource,
     SourceType,
     Type,
     CONFIG_FILE_NAME,
-    DEFAULT_CONFIG
+    DEFAULT_CONFIG,
+    CONFIG_SCHEMA
 };
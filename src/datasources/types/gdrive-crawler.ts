@@ -1,10 +1,12 @@
 // src/datasources/types/gdrive-crawler.ts
 
-import { GSDataSource, GSContext, GSStatus, logger } from "@godspeedsystems/core";
+import { GSDataSource, GSContext, GSStatus } from "@godspeedsystems/core";
 import { google, drive_v3 } from 'googleapis';
 import { JWT } from 'google-auth-library';
 import { Readable } from 'stream';
 import { IngestionData } from '../../functions/ingestion/interfaces';
+import { JsonSchema } from '../../functions/ingestion/ConfigSchema';
+import { runLogger as logger } from '../../functions/ingestion/RunContext';
 
 // Define the structure for the service account key JSON
 interface ServiceAccountKey {
@@ -128,9 +130,10 @@ export default class DataSource extends GSDataSource {
      *
      * @param ctx The Godspeed context.
      * @param initialPayload Optional payload, used for webhook data.
+     * @param signal Aborted when the ingestion run is cancelled or times out; in-flight Drive requests are aborted with it.
      * @returns A GSStatus containing the ingested data.
      */
-    async execute(ctx: GSContext, initialPayload?: any): Promise<GSStatus> {
+    async execute(ctx: GSContext, initialPayload?: any, signal?: AbortSignal): Promise<GSStatus> {
         // FIX: Check readiness flag first. If not ready, return graceful error immediately.
         if (!this.isConfiguredAndReady || !this.driveClient) {
             logger.warn("GoogleDriveCrawler: Attempted to execute but it is not configured or ready. Skipping operation.");
@@ -175,12 +178,12 @@ export default class DataSource extends GSDataSource {
 
                     if (changeType === 'changed' || changeType === 'exists') {
                         try {
-                            const fileMetadata = await this.driveClient.files.get({ fileId: fileId, fields: 'id,name,mimeType,webViewLink,webContentLink,size,createdTime,modifiedTime,parents' });
+                            const fileMetadata = await this.driveClient.files.get({ fileId: fileId, fields: 'id,name,mimeType,webViewLink,webContentLink,size,createdTime,modifiedTime,parents' }, { signal });
                             const fileName = fileMetadata.data.name || fileId;
                             const mimeType = fileMetadata.data.mimeType || 'application/octet-stream';
                             const fileSize = fileMetadata.data.size ? parseInt(fileMetadata.data.size) : 0;
 
-                            const fileContent = await this._getFileContent(this.driveClient, fileId, mimeType);
+                            const fileContent = await this._getFileContent(this.driveClient, fileId, mimeType, signal);
 
                             ingestionData.push({
                                 id: fileId,
@@ -275,14 +278,17 @@ export default class DataSource extends GSDataSource {
 
             try {
                 do {
-                    const listResult = await this._listFiles(this.driveClient, this.config.folderId, pageToken, this.config.pageSize);
+                    const listResult = await this._listFiles(this.driveClient, this.config.folderId, pageToken, this.config.pageSize, signal);
                     totalFilesListed += listResult.files?.length || 0;
 
                     if (listResult.files) {
                         for (const file of listResult.files) {
+                            if (signal?.aborted) {
+                                break;
+                            }
                             if (file.id && file.name) {
                                 try {
-                                    const fileContent = await this._getFileContent(this.driveClient, file.id, file.mimeType || 'application/octet-stream');
+                                    const fileContent = await this._getFileContent(this.driveClient, file.id, file.mimeType || 'application/octet-stream', signal);
                                     ingestionData.push({
                                         id: file.id,
                                         content: fileContent || '',
@@ -301,6 +307,9 @@ export default class DataSource extends GSDataSource {
                                         }
                                     });
                                 } catch (fetchError: any) {
+                                    if (signal?.aborted) {
+                                        break;
+                                    }
                                     logger.warn(`GoogleDriveCrawler: Failed to fetch content for file '${file.name}' (ID: ${file.id}): ${fetchError.message}`);
                                     ingestionData.push({
                                         id: `${file.id}-error`,
@@ -321,7 +330,12 @@ export default class DataSource extends GSDataSource {
                         }
                     }
                     pageToken = listResult.nextPageToken || undefined;
-                } while (pageToken);
+                } while (pageToken && !signal?.aborted);
+
+                if (signal?.aborted) {
+                    logger.warn(`GoogleDriveCrawler: Scan of folder '${this.config.folderId}' was cancelled after ${ingestionData.length} items.`);
+                    return new GSStatus(false, 499, "Google Drive folder scan cancelled", { crawledCount: ingestionData.length, data: ingestionData });
+                }
 
                 logger.info(`GoogleDriveCrawler: Completed full scan. Listed ${totalFilesListed} files and ingested ${ingestionData.length} items.`);
                 return new GSStatus(true, 200, "Google Drive folder scan successful.", {
@@ -330,6 +344,10 @@ export default class DataSource extends GSDataSource {
                 });
 
             } catch (error: any) {
+                if (signal?.aborted) {
+                    logger.warn(`GoogleDriveCrawler: Scan of folder '${this.config.folderId}' was cancelled after ${ingestionData.length} items.`);
+                    return new GSStatus(false, 499, "Google Drive folder scan cancelled", { crawledCount: ingestionData.length, data: ingestionData });
+                }
                 logger.error(`GoogleDriveCrawler: Failed during standard Drive scan: ${error.message}`, { error });
                 return new GSStatus(false, 500, `Google Drive folder scan failed: ${error.message}`);
             }
@@ -350,7 +368,7 @@ export default class DataSource extends GSDataSource {
         }, obj);
     }
 
-    private async _listFiles(driveClient: drive_v3.Drive, folderId: string, pageToken?: string, pageSize?: number): Promise<drive_v3.Schema$FileList> {
+    private async _listFiles(driveClient: drive_v3.Drive, folderId: string, pageToken?: string, pageSize?: number, signal?: AbortSignal): Promise<drive_v3.Schema$FileList> {
         const query = `'${folderId}' in parents and trashed = false`;
         const fields = 'nextPageToken, files(id, name, mimeType, webViewLink, webContentLink, size, createdTime, modifiedTime, parents)';
 
@@ -360,11 +378,11 @@ export default class DataSource extends GSDataSource {
             spaces: 'drive',
             pageToken: pageToken,
             pageSize: pageSize,
-        });
+        }, { signal });
         return res.data;
     }
 
-    private async _getFileContent(driveClient: drive_v3.Drive, fileId: string, mimeType: string): Promise<string | Buffer | undefined> {
+    private async _getFileContent(driveClient: drive_v3.Drive, fileId: string, mimeType: string, signal?: AbortSignal): Promise<string | Buffer | undefined> {
         let exportMimeType: string | undefined;
 
         if (mimeType === 'application/vnd.google-apps.document') {
@@ -381,7 +399,7 @@ export default class DataSource extends GSDataSource {
                 fileId: fileId,
                 alt: 'media', 
                 ...(exportMimeType && { mimeType: exportMimeType }), 
-            }, { responseType: 'stream' });
+            }, { responseType: 'stream', signal });
 
             const stream = res.data as Readable;
             return new Promise((resolve, reject) => {
@@ -416,10 +434,34 @@ const DEFAULT_CONFIG = {
     pageSize: 100
 };
 
+const CONFIG_SCHEMA: JsonSchema = {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+        folderId: { type: 'string', minLength: 1 },
+        authType: { type: 'string', enum: ['service_account'] },
+        serviceAccountKeyPath: { type: 'string', minLength: 1 },
+        serviceAccountKey: { type: 'string', minLength: 1 },
+        webhookMode: { type: 'boolean' },
+        webhookFileIdPath: { type: 'string' },
+        webhookChangeTypePath: { type: 'string' },
+        pageSize: { type: 'integer', minimum: 1, maximum: 1000 },
+    },
+    // Without a key initClient() silently disables the crawler
+    anyOf: [
+        { required: ['serviceAccountKey'] },
+        { required: ['serviceAccountKeyPath'] },
+    ],
+    // folderId is only optional when file ids come from the webhook payload
+    if: { properties: { webhookMode: { const: true } }, required: ['webhookMode'] },
+    else: { required: ['folderId'] },
+};
+
 export {
     DataSource,
     SourceType,
     Type,
     CONFIG_FILE_NAME,
-    DEFAULT_CONFIG
+    DEFAULT_CONFIG,
+    CONFIG_SCHEMA
 };
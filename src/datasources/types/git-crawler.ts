@@ -1,10 +1,12 @@
 // C:\Users\SOHAM\Desktop\crawler\test-crawler\src\datasources\types\git-crawler.ts
 
-import { GSContext, GSDataSource, GSStatus, logger } from "@godspeedsystems/core";
+import { GSContext, GSDataSource, GSStatus } from "@godspeedsystems/core";
 import simpleGit, { SimpleGit, CloneOptions } from "simple-git";
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { IngestionData } from '../../functions/ingestion/interfaces';
+import { JsonSchema } from '../../functions/ingestion/ConfigSchema';
+import { runLogger as logger } from '../../functions/ingestion/RunContext';
 
 // Define GitHubPushPayload interfaces locally for clarity, or import if it's in interfaces.ts
 interface GitHubCommit {
@@ -46,8 +48,6 @@ export interface GitCrawlerConfig {
 }
 
 export default class DataSource extends GSDataSource {
-    private git: SimpleGit = simpleGit();
-
     public config: GitCrawlerConfig;
 
     constructor(configWrapper: { config: GitCrawlerConfig } | GitCrawlerConfig) {
@@ -87,8 +87,10 @@ export default class DataSource extends GSDataSource {
         return { status: "connected" };
     }
 
-    async execute(ctx: GSContext, initialPayload?: any): Promise<GSStatus> {
+    async execute(ctx: GSContext, initialPayload?: any, signal?: AbortSignal): Promise<GSStatus> {
         const fetchedAt = new Date(); 
+        // A client per run: simple-git kills the running git process (e.g. a huge clone) when this run's signal aborts
+        const git = signal ? simpleGit({ abort: signal }) : simpleGit();
         const rawWebhookPayload = initialPayload?.webhookPayload;
 
         if (this.config.webhookMode && rawWebhookPayload) {
@@ -118,11 +120,11 @@ export default class DataSource extends GSDataSource {
                 // --- END Webhook Secret Validation ---
 
 
-                await this.ensureLocalRepo(githubPayload.repository.html_url, githubPayload.ref.replace('refs/heads/', ''));
+                await this.ensureLocalRepo(git, githubPayload.repository.html_url, githubPayload.ref.replace('refs/heads/', ''));
 
                 // Perform git reset --hard to bring local repo to the state of the 'after' commit
                 // This will effectively remove deleted files from the local clone.
-                await this.git.cwd(this.config.localPath).reset(['--hard', githubPayload.after]);
+                await git.cwd(this.config.localPath).reset(['--hard', githubPayload.after]);
                 logger.info(`GitCrawler: Reset local repo to commit ${githubPayload.after}`);
 
                 const ingestionData: IngestionData[] = [];
@@ -211,7 +213,7 @@ export default class DataSource extends GSDataSource {
             const { repoUrl, localPath, branch } = this.config;
 
             try {
-                await this.ensureLocalRepo(repoUrl, branch);
+                await this.ensureLocalRepo(git, repoUrl, branch);
 
                 const allFilesData = await this.readAllFilesFromLocalPath(localPath, repoUrl, fetchedAt);
                 logger.info(`GitCrawler: Cloned/Pulled and read ${allFilesData.length} files from ${repoUrl}.`);
@@ -234,32 +236,32 @@ export default class DataSource extends GSDataSource {
         }
     }
 
-    private async ensureLocalRepo(repoUrl: string, branch: string | undefined): Promise<void> {
+    private async ensureLocalRepo(git: SimpleGit, repoUrl: string, branch: string | undefined): Promise<void> {
         const repoExists = await fs.access(this.config.localPath).then(() => true).catch(() => false);
         if (repoExists && (await fs.stat(this.config.localPath)).isDirectory()) {
             try {
-                const currentRemote = await this.git.cwd(this.config.localPath).remote(['get-url', 'origin']);
+                const currentRemote = await git.cwd(this.config.localPath).remote(['get-url', 'origin']);
                 if (currentRemote && currentRemote.trim() === repoUrl) {
                     logger.info(`GitCrawler: Local repo ${this.config.localPath} exists and matches URL, pulling latest changes.`);
-                    await this.git.cwd(this.config.localPath).fetch('origin', branch || 'main');
+                    await git.cwd(this.config.localPath).fetch('origin', branch || 'main');
                 } else {
                     logger.warn(`GitCrawler: Local path ${this.config.localPath} exists but is a different repo or not a git repo. Attempting to remove and clone.`);
                     await fs.rm(this.config.localPath, { recursive: true, force: true });
-                    await this.cloneRepo(repoUrl, branch);
+                    await this.cloneRepo(git, repoUrl, branch);
                 }
             } catch (gitError: any) {
                 logger.warn(`GitCrawler: Error checking existing repo at ${this.config.localPath}: ${gitError.message}. Attempting to remove and re-clone.`);
                 await fs.rm(this.config.localPath, { recursive: true, force: true });
-                await this.cloneRepo(repoUrl, branch);
+                await this.cloneRepo(git, repoUrl, branch);
             }
         } else {
             logger.info(`GitCrawler: Local path ${this.config.localPath} does not exist or is not a directory, cloning repo.`);
             await fs.mkdir(this.config.localPath, { recursive: true }); 
-            await this.cloneRepo(repoUrl, branch);
+            await this.cloneRepo(git, repoUrl, branch);
         }
     }
 
-    private async cloneRepo(repoUrl: string, branch: string | undefined): Promise<void> {
+    private async cloneRepo(git: SimpleGit, repoUrl: string, branch: string | undefined): Promise<void> {
         const cloneOptions: CloneOptions = {};
         if (branch !== undefined) {
             cloneOptions['--branch'] = branch;
@@ -267,7 +269,7 @@ export default class DataSource extends GSDataSource {
         if (this.config.depth !== undefined) {
             cloneOptions['--depth'] = this.config.depth;
         }
-        await this.git.clone(repoUrl, this.config.localPath, cloneOptions);
+        await git.clone(repoUrl, this.config.localPath, cloneOptions);
     }
 
     private async readAllFilesFromLocalPath(basePath: string, repoUrl: string, fetchedAt: Date): Promise<IngestionData[]> {
@@ -331,10 +333,25 @@ const DEFAULT_CONFIG = {
     // webhookSecret is intentionally not in DEFAULT_CONFIG as it's sensitive and optional
 };
 
+const CONFIG_SCHEMA: JsonSchema = {
+    type: 'object',
+    additionalProperties: false,
+    required: ['repoUrl', 'localPath'],
+    properties: {
+        repoUrl: { type: 'string', minLength: 1 },
+        localPath: { type: 'string', minLength: 1 },
+        branch: { type: 'string', minLength: 1 },
+        depth: { type: 'integer', minimum: 1 },
+        webhookMode: { type: 'boolean' },
+        webhookSecret: { type: 'string' },
+    },
+};
+
 export {
     DataSource,
     SourceType,
     Type,
     CONFIG_FILE_NAME,
-    DEFAULT_CONFIG
+    DEFAULT_CONFIG,
+    CONFIG_SCHEMA
 };
@@ -1,12 +1,14 @@
 //C:\Users\SOHAM\Desktop\crawler\test-crawler\src\datasources\types\http-crawler.ts
 
-import { GSDataSource, GSContext, GSStatus, logger } from "@godspeedsystems/core";
+import { GSDataSource, GSContext, GSStatus } from "@godspeedsystems/core";
 import axios, { AxiosResponse } from "axios"; // KEEP: Direct Axios import, ADDED AxiosResponse
 import * as cheerio from "cheerio";
 import { Element } from 'domhandler';
 import { parseStringPromise } from "xml2js";
 import { URL } from "url";
 import { IngestionData } from '../../functions/ingestion/interfaces'; 
+import { JsonSchema } from '../../functions/ingestion/ConfigSchema';
+import { runLogger as logger } from '../../functions/ingestion/RunContext';
 
 export interface HttpCrawlerConfig {
     startUrl?: string; 
@@ -56,7 +58,7 @@ export default class DataSource extends GSDataSource {
         return { status: "connected" };
     }
 
-    async execute(ctx: GSContext, initialPayload?: any): Promise<GSStatus> {
+    async execute(ctx: GSContext, initialPayload?: any, signal?: AbortSignal): Promise<GSStatus> {
         logger.info("http-crawler triggered");
         const fetchedAt = new Date(); 
 
@@ -80,7 +82,7 @@ export default class DataSource extends GSDataSource {
 
             if (urlToCrawl) {
                 try {
-                    const page = await this._fetchPage(urlToCrawl); 
+                    const page = await this._fetchPage(urlToCrawl, signal); 
                     results.push({
                         id: page.url,
                         content: page.content,
@@ -149,11 +151,15 @@ export default class DataSource extends GSDataSource {
             try {
                 if (sitemapDiscovery) {
                     logger.info(`Attempting sitemap discovery for ${startUrl}`);
-                    const sitemapLinks = await this._parseSitemap(startUrl, regexFilter); 
+                    const sitemapLinks = await this._parseSitemap(startUrl, regexFilter, signal); 
                     logger.info(`Found ${sitemapLinks.length} links in sitemap for ${startUrl}`);
                     for (const link of sitemapLinks) {
+                        if (signal?.aborted) {
+                            logger.warn(`HttpCrawler: Crawl cancelled. Stopping sitemap fetch after ${results.length} pages.`);
+                            break;
+                        }
                         try {
-                            const page = await this._fetchPage(link); 
+                            const page = await this._fetchPage(link, signal); 
                             results.push({
                                 id: page.url,
                                 content: page.content,
@@ -174,7 +180,12 @@ export default class DataSource extends GSDataSource {
 
                 if (!sitemapDiscovery || (sitemapDiscovery && (recursiveCrawling ?? false))) {
                     logger.info(`Starting recursive crawl from ${startUrl} with maxDepth ${maxDepth}`);
-                    await this._crawl(startUrl, maxDepth ?? 0, results, followExternalLinks ?? false, fetchedAt, regexFilter); 
+                    await this._crawl(startUrl, maxDepth ?? 0, results, followExternalLinks ?? false, fetchedAt, regexFilter, signal); 
+                }
+
+                if (signal?.aborted) {
+                    logger.warn(`HttpCrawler: Crawl of ${startUrl} was cancelled after ${results.length} pages.`);
+                    return new GSStatus(false, 499, "Crawl cancelled", { crawledCount: results.length, data: results });
                 }
 
                 logger.info(`Crawl completed. Total crawled pages: ${results.length}`);
@@ -198,7 +209,7 @@ export default class DataSource extends GSDataSource {
         return path.split('.').reduce((acc, part) => acc && acc[part], obj);
     }
 
-    private async _parseSitemap(baseUrl: string, regexFilter?: RegExp): Promise<string[]> {
+    private async _parseSitemap(baseUrl: string, regexFilter?: RegExp, signal?: AbortSignal): Promise<string[]> {
         try {
             const sitemapUrl = new URL('sitemap.xml', baseUrl).toString();
             logger.info(`Fetching sitemap from: ${sitemapUrl}`);
@@ -207,6 +218,7 @@ export default class DataSource extends GSDataSource {
                     'User-Agent': this.config.userAgent || 'Godspeed-HttpCrawler-Sitemap',
                 },
                 responseType: 'text', // FIX: Ensure response is text for XML parsing
+                signal,
             });
             const parsed = await parseStringPromise(res.data);
             const links = parsed?.urlset?.url?.map((entry: any) => entry.loc[0]) || [];
@@ -223,7 +235,11 @@ export default class DataSource extends GSDataSource {
         }
     }
 
-    private async _crawl(url: string, depth: number, results: IngestionData[], followExternalLinks: boolean, fetchedAt: Date, regexFilter?: RegExp) {
+    private async _crawl(url: string, depth: number, results: IngestionData[], followExternalLinks: boolean, fetchedAt: Date, regexFilter?: RegExp, signal?: AbortSignal) {
+        if (signal?.aborted) {
+            logger.debug(`Skipping ${url}. Crawl was cancelled.`);
+            return;
+        }
         if (this.visited.has(url) || depth < 0) {
             logger.debug(`Skipping ${url}. Visited: ${this.visited.has(url)}, Depth: ${depth}`);
             return;
@@ -237,7 +253,7 @@ export default class DataSource extends GSDataSource {
         this.visited.add(url);
         logger.info(`Crawling: ${url} (Depth: ${depth}, Visited: ${this.visited.size})`);
 
-        const page = await this._fetchPage(url); 
+        const page = await this._fetchPage(url, signal); 
         if (page.statusCode >= 200 && page.statusCode < 400) {
             results.push({
                 id: page.url,
@@ -289,15 +305,18 @@ export default class DataSource extends GSDataSource {
         logger.info(`_crawl Debug: Extracted and filtered ${links.length} absolute links from ${url}. Sample: ${JSON.stringify(links.slice(0, 5))}`);
 
         for (const link of links) {
+            if (signal?.aborted) {
+                break;
+            }
             try {
-                await this._crawl(link, depth - 1, results, followExternalLinks, fetchedAt, regexFilter); 
+                await this._crawl(link, depth - 1, results, followExternalLinks, fetchedAt, regexFilter, signal); 
             } catch (err: any) {
                 logger.debug(`Error crawling link ${link}: ${err.message}`);
             }
         }
     }
 
-    private async _fetchPage(url: string): Promise<any> {
+    private async _fetchPage(url: string, signal?: AbortSignal): Promise<any> {
         const start = Date.now();
         let res: AxiosResponse<string>; // FIX: Explicitly type res as AxiosResponse<string>
         let content: string = ""; // FIX: Initialize content as string
@@ -314,7 +333,8 @@ export default class DataSource extends GSDataSource {
                 data: this.config.data, 
                 validateStatus: () => true, 
                 timeout: 10000, 
-                responseType: 'text' // FIX: Crucial - force Axios to return response data as a string
+                responseType: 'text', // FIX: Crucial - force Axios to return response data as a string
+                signal, // Aborts the request when the ingestion run is cancelled or times out
             });
 
             const end = Date.now();
@@ -353,10 +373,34 @@ const Type = "http-crawler";
 const CONFIG_FILE_NAME = "http-crawler";
 const DEFAULT_CONFIG = {}; 
 
+const CONFIG_SCHEMA: JsonSchema = {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+        startUrl: { type: 'string', pattern: '^https?://' },
+        method: { type: 'string', enum: ['GET', 'POST'] },
+        headers: { type: 'object', additionalProperties: { type: 'string' } },
+        params: { type: 'object' },
+        data: {},
+        userAgent: { type: 'string' },
+        maxDepth: { type: 'integer', minimum: 0 },
+        sitemapDiscovery: { type: 'boolean' },
+        recursiveCrawling: { type: 'boolean' },
+        followExternalLinks: { type: 'boolean' },
+        urlFilterRegex: { type: 'string' },
+        webhookMode: { type: 'boolean' },
+        webhookUrlPath: { type: 'string' },
+    },
+    // startUrl is only optional when the URL comes from the webhook payload
+    if: { properties: { webhookMode: { const: true } }, required: ['webhookMode'] },
+    else: { required: ['startUrl'] },
+};
+
 export {
     DataSource,
     SourceType,
     Type,
     CONFIG_FILE_NAME,
-    DEFAULT_CONFIG
+    DEFAULT_CONFIG,
+    CONFIG_SCHEMA
 }
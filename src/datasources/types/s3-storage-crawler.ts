@@ -1,15 +1,17 @@
 // src/datasources/types/s3-storage-crawler.ts
 
-import { GSDataSource, GSContext, GSStatus, logger } from "@godspeedsystems/core";
+import { GSDataSource, GSContext, GSStatus } from "@godspeedsystems/core";
+import { runLogger as logger } from '../../functions/ingestion/RunContext';
 // FIX: Import S3 commands from the AWS SDK directly, as the plugin's client will use them
 import { GetObjectCommand, ListObjectsV2Command, ListObjectsV2CommandOutput, GetObjectCommandOutput } from "@aws-sdk/client-s3";
 import { Readable } from 'stream';
 import { IngestionData } from '../../functions/ingestion/interfaces';
+import { JsonSchema } from '../../functions/ingestion/ConfigSchema';
 
 // Define a type for the S3 client provided by Godspeed's AWS plugin
 // This is a simplified type, the actual client might have more methods.
 interface GodspeedS3Client {
-    send: (command: any) => Promise<any>;
+    send: (command: any, options?: { abortSignal?: AbortSignal }) => Promise<any>;
     // Add other methods if you need them (e.g., for direct client access)
 }
 
@@ -65,9 +67,10 @@ export default class DataSource extends GSDataSource {
      *
      * @param ctx The Godspeed context.
      * @param initialPayload Optional payload, used for webhook data.
+     * @param signal Aborted when the ingestion run is cancelled or times out; in-flight S3 requests are aborted with it.
      * @returns A GSStatus containing the ingested data.
      */
-    async execute(ctx: GSContext, initialPayload?: any): Promise<GSStatus> {
+    async execute(ctx: GSContext, initialPayload?: any, signal?: AbortSignal): Promise<GSStatus> {
         // FIX: Retrieve the S3 client from ctx.datasources
         const s3Client: GodspeedS3Client | undefined = (ctx.datasources as any)?.aws?.[this.config.awsServiceInstanceName];
 
@@ -121,7 +124,7 @@ export default class DataSource extends GSDataSource {
                         // Handle object creation/modification/restore
                         try {
                             // FIX: Pass s3Client to _getObjectContent
-                            const objectContent = await this._getObjectContent(s3Client, this.config.bucketName, objectKey);
+                            const objectContent = await this._getObjectContent(s3Client, this.config.bucketName, objectKey, signal);
                             ingestionData.push({
                                 id: `${this.config.bucketName}/${objectKey}`,
                                 content: objectContent || '',
@@ -208,15 +211,18 @@ export default class DataSource extends GSDataSource {
             try {
                 do {
                     // FIX: Pass s3Client to _listObjects
-                    const listResult = await this._listObjects(s3Client, this.config.bucketName, this.config.prefix, continuationToken);
+                    const listResult = await this._listObjects(s3Client, this.config.bucketName, this.config.prefix, continuationToken, signal);
                     totalObjectsListed += listResult.Contents?.length || 0;
 
                     if (listResult.Contents) {
                         for (const s3Object of listResult.Contents) {
+                            if (signal?.aborted) {
+                                break;
+                            }
                             if (s3Object.Key) {
                                 try {
                                     // FIX: Pass s3Client to _getObjectContent
-                                    const objectContent = await this._getObjectContent(s3Client, this.config.bucketName, s3Object.Key);
+                                    const objectContent = await this._getObjectContent(s3Client, this.config.bucketName, s3Object.Key, signal);
                                     ingestionData.push({
                                         id: `${this.config.bucketName}/${s3Object.Key}`,
                                         content: objectContent || '',
@@ -233,6 +239,9 @@ export default class DataSource extends GSDataSource {
                                         }
                                     });
                                 } catch (fetchError: any) {
+                                    if (signal?.aborted) {
+                                        break;
+                                    }
                                     logger.warn(`S3StorageCrawler: Failed to fetch content for object '${s3Object.Key}': ${fetchError.message}`);
                                     ingestionData.push({
                                         id: `${this.config.bucketName}/${s3Object.Key}-error`,
@@ -255,7 +264,12 @@ export default class DataSource extends GSDataSource {
                         }
                     }
                     continuationToken = listResult.NextContinuationToken;
-                } while (continuationToken);
+                } while (continuationToken && !signal?.aborted);
+
+                if (signal?.aborted) {
+                    logger.warn(`S3StorageCrawler: Scan of bucket '${this.config.bucketName}' was cancelled after ${ingestionData.length} items.`);
+                    return new GSStatus(false, 499, "S3 bucket scan cancelled", { crawledCount: ingestionData.length, data: ingestionData });
+                }
 
                 logger.info(`S3StorageCrawler: Completed full scan. Listed ${totalObjectsListed} objects and ingested ${ingestionData.length} items.`);
                 return new GSStatus(true, 200, "S3 bucket scan successful.", {
@@ -264,6 +278,10 @@ export default class DataSource extends GSDataSource {
                 });
 
             } catch (error: any) {
+                if (signal?.aborted) {
+                    logger.warn(`S3StorageCrawler: Scan of bucket '${this.config.bucketName}' was cancelled after ${ingestionData.length} items.`);
+                    return new GSStatus(false, 499, "S3 bucket scan cancelled", { crawledCount: ingestionData.length, data: ingestionData });
+                }
                 logger.error(`S3StorageCrawler: Failed during standard S3 scan: ${error.message}`, { error });
                 return new GSStatus(false, 500, `S3 bucket scan failed: ${error.message}`);
             }
@@ -285,24 +303,24 @@ export default class DataSource extends GSDataSource {
     }
 
     // FIX: Added s3Client parameter
-    private async _listObjects(s3Client: GodspeedS3Client, bucketName: string, prefix?: string, continuationToken?: string): Promise<ListObjectsV2CommandOutput> {
+    private async _listObjects(s3Client: GodspeedS3Client, bucketName: string, prefix?: string, continuationToken?: string, signal?: AbortSignal): Promise<ListObjectsV2CommandOutput> {
         const command = new ListObjectsV2Command({
             Bucket: bucketName,
             Prefix: prefix,
             ContinuationToken: continuationToken,
         });
-        return s3Client.send(command);
+        return s3Client.send(command, { abortSignal: signal });
     }
 
     // FIX: Added s3Client parameter
-    private async _getObjectContent(s3Client: GodspeedS3Client, bucketName: string, key: string): Promise<string | undefined> {
+    private async _getObjectContent(s3Client: GodspeedS3Client, bucketName: string, key: string, signal?: AbortSignal): Promise<string | undefined> {
         const command = new GetObjectCommand({
             Bucket: bucketName,
             Key: key,
         });
 
         try {
-            const response: GetObjectCommandOutput = await s3Client.send(command);
+            const response: GetObjectCommandOutput = await s3Client.send(command, { abortSignal: signal });
             if (response.Body) {
                 const stream = response.Body as Readable;
                 return new Promise((resolve, reject) => {
@@ -332,10 +350,25 @@ const DEFAULT_CONFIG = {
     webhookEventNamePath: "Records[0].eventName"
 };
 
+const CONFIG_SCHEMA: JsonSchema = {
+    type: 'object',
+    additionalProperties: false,
+    required: ['bucketName', 'awsServiceInstanceName'],
+    properties: {
+        bucketName: { type: 'string', minLength: 1 },
+        awsServiceInstanceName: { type: 'string', minLength: 1 },
+        prefix: { type: 'string' },
+        webhookMode: { type: 'boolean' },
+        webhookObjectKeyPath: { type: 'string' },
+        webhookEventNamePath: { type: 'string' },
+    },
+};
+
 export {
     DataSource,
     SourceType,
     Type,
     CONFIG_FILE_NAME,
-    DEFAULT_CONFIG
+    DEFAULT_CONFIG,
+    CONFIG_SCHEMA
 };
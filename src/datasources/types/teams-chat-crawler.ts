@@ -1,8 +1,10 @@
 // src/datasources/types/teams-chat-crawler.ts
 
-import { GSDataSource, GSContext, GSStatus, logger } from "@godspeedsystems/core";
+import { GSDataSource, GSContext, GSStatus } from "@godspeedsystems/core";
 import axios, { AxiosResponse } from 'axios'; // RE-ADDED: Direct Axios import, ADDED AxiosResponse type
 import { IngestionData } from '../../functions/ingestion/interfaces';
+import { JsonSchema } from '../../functions/ingestion/ConfigSchema';
+import { runLogger as logger } from '../../functions/ingestion/RunContext';
 
 export interface TeamsChatCrawlerConfig {
     tenantId?: string; 
@@ -107,7 +109,7 @@ export default class DataSource extends GSDataSource {
     /**
      * Fetches the chat ID (threadId) associated with a Teams online meeting.
      */
-    private async _getMeetingChatId(meetingId: string, userId: string): Promise<string | undefined> { 
+    private async _getMeetingChatId(meetingId: string, userId: string, signal?: AbortSignal): Promise<string | undefined> { 
         const accessToken = await this._ensureAccessToken(); 
         const graphApiUrl = `https://graph.microsoft.com/v1.0/users/${userId}/onlineMeetings/${meetingId}`;
 
@@ -116,7 +118,8 @@ export default class DataSource extends GSDataSource {
             // FIX: Explicitly type the response from axios.get
             const response: AxiosResponse<any> = await axios.get(graphApiUrl, {
                 headers: { Authorization: `Bearer ${accessToken}` },
-                validateStatus: (status) => status >= 200 && status < 300
+                validateStatus: (status) => status >= 200 && status < 300,
+                signal,
             });
 
             if (response.data && response.data.chatInfo && response.data.chatInfo.threadId) {
@@ -133,8 +136,9 @@ export default class DataSource extends GSDataSource {
 
     /**
      * Fetches all chat messages for a given chat ID, handling pagination.
+     * Stops after the current page when the signal is aborted.
      */
-    private async _fetchChatMessages(chatId: string): Promise<any[]> { 
+    private async _fetchChatMessages(chatId: string, signal?: AbortSignal): Promise<any[]> { 
         const accessToken = await this._ensureAccessToken(); 
         let allMessages: any[] = [];
         let nextLink: string | undefined = `https://graph.microsoft.com/v1.0/chats/${chatId}/messages`; 
@@ -142,11 +146,12 @@ export default class DataSource extends GSDataSource {
         logger.info(`TeamsChatCrawler: Fetching chat messages for chat ID: ${chatId}`);
 
         try {
-            while (nextLink) {
+            while (nextLink && !signal?.aborted) {
                 // FIX: Explicitly type the response from axios.get
                 const response: AxiosResponse<any> = await axios.get(nextLink, {
                     headers: { Authorization: `Bearer ${accessToken}` },
-                    validateStatus: (status) => status >= 200 && status < 300
+                    validateStatus: (status) => status >= 200 && status < 300,
+                    signal,
                 });
 
                 if (response.data && Array.isArray(response.data.value)) {
@@ -191,9 +196,10 @@ export default class DataSource extends GSDataSource {
      *
      * @param ctx The Godspeed context.
      * @param initialPayload Optional payload, used for webhook data.
+     * @param signal Aborted when the ingestion run is cancelled or times out; in-flight Graph requests are aborted with it.
      * @returns A GSStatus containing the ingested data.
      */
-    async execute(ctx: GSContext, initialPayload?: any): Promise<GSStatus> {
+    async execute(ctx: GSContext, initialPayload?: any, signal?: AbortSignal): Promise<GSStatus> {
         // Check readiness flag first. If not ready, return graceful error immediately.
         if (!this.isConfiguredAndReady) {
             logger.warn("TeamsChatCrawler: Attempted to execute but it is not configured or ready. Skipping operation.");
@@ -218,7 +224,7 @@ export default class DataSource extends GSDataSource {
                     logger.info(`TeamsChatCrawler: Extracted chat ID '${targetChatId}' directly from webhook payload.`);
                 } else if (webhookMeetingId && this.config.userIdForMeetings) {
                     logger.info(`TeamsChatCrawler: Extracted meeting ID '${webhookMeetingId}' from webhook. Attempting to get chat ID.`);
-                    targetChatId = await this._getMeetingChatId(webhookMeetingId, this.config.userIdForMeetings); 
+                    targetChatId = await this._getMeetingChatId(webhookMeetingId, this.config.userIdForMeetings, signal); 
                 } else {
                     logger.warn(`TeamsChatCrawler: Webhook payload did not contain a usable meeting/chat ID or 'userIdForMeetings' is missing. Ingesting raw payload.`);
                     ingestionData.push({
@@ -240,11 +246,11 @@ export default class DataSource extends GSDataSource {
                     return new GSStatus(false, 400, "TeamsChatCrawler: 'meetingId' and 'userIdForMeetings' are required in standard mode.");
                 }
                 logger.info(`TeamsChatCrawler: Using configured meeting ID '${this.config.meetingId}' and user ID '${this.config.userIdForMeetings}'.`);
-                targetChatId = await this._getMeetingChatId(this.config.meetingId, this.config.userIdForMeetings); 
+                targetChatId = await this._getMeetingChatId(this.config.meetingId, this.config.userIdForMeetings, signal); 
             }
 
             if (targetChatId) {
-                const messages = await this._fetchChatMessages(targetChatId); 
+                const messages = await this._fetchChatMessages(targetChatId, signal); 
                 messages.forEach(msg => {
                     ingestionData.push({
                         id: `${targetChatId}-${msg.id}`,
@@ -270,12 +276,20 @@ export default class DataSource extends GSDataSource {
                 return new GSStatus(true, 200, "TeamsChatCrawler: No chat ID found or no messages to ingest.", { crawledCount: 0 });
             }
 
+            if (signal?.aborted) {
+                logger.warn(`TeamsChatCrawler: Ingestion of chat '${targetChatId}' was cancelled after ${ingestionData.length} messages.`);
+                return new GSStatus(false, 499, "Teams chat ingestion cancelled", { crawledCount: ingestionData.length, data: ingestionData });
+            }
             return new GSStatus(true, 200, "Teams chat ingestion successful.", {
                 crawledCount: ingestionData.length,
                 data: ingestionData,
             });
 
         } catch (error: any) {
+            if (signal?.aborted) {
+                logger.warn(`TeamsChatCrawler: Ingestion was cancelled after ${ingestionData.length} messages.`);
+                return new GSStatus(false, 499, "Teams chat ingestion cancelled", { crawledCount: ingestionData.length, data: ingestionData });
+            }
             logger.error(`TeamsChatCrawler: Execution failed: ${error.message}`, { error });
             return new GSStatus(false, 500, `Teams chat ingestion failed: ${error.message}`);
         }
@@ -294,10 +308,28 @@ const DEFAULT_CONFIG = {
     webhookChatIdPath: "data.chatId",
 };
 
+const CONFIG_SCHEMA: JsonSchema = {
+    type: 'object',
+    additionalProperties: false,
+    // initClient() disables the crawler when any of the credentials is missing
+    required: ['tenantId', 'clientId', 'clientSecret'],
+    properties: {
+        tenantId: { type: 'string', minLength: 1 },
+        clientId: { type: 'string', minLength: 1 },
+        clientSecret: { type: 'string', minLength: 1 },
+        meetingId: { type: 'string' },
+        userIdForMeetings: { type: 'string' },
+        webhookMode: { type: 'boolean' },
+        webhookMeetingIdPath: { type: 'string' },
+        webhookChatIdPath: { type: 'string' },
+    },
+};
+
 export {
     DataSource,
     SourceType,
     Type,
     CONFIG_FILE_NAME,
-    DEFAULT_CONFIG
+    DEFAULT_CONFIG,
+    CONFIG_SCHEMA
 };
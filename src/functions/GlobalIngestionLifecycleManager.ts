@@ -1,6 +1,5 @@
 // C:\Users\SOHAM\Desktop\crawler\test-crawler\src\functions\GlobalIngestionLifecycleManager.ts
 
-import { EventEmitter } from 'events';
 import { CronExpressionParser } from 'cron-parser';
 // Import essential core types and objects directly from @godspeedsystems/core
 // FIX: Import the entire module as 'Godspeed' to access nested types/enums
@@ -15,39 +14,202 @@ import { randomUUID } from 'crypto';
 import {
     IGlobalIngestionLifecycleManager,
     IngestionTaskDefinition,
+    IngestionDestinationDefinition,
     GSDataSource,
     IngestionDataTransformer,
+    DestinationConstructor,
     IDestinationPlugin,
     CronTrigger,
+    IntervalTrigger,
+    OneShotTrigger,
+    FileWatchTrigger,
     WebhookTrigger,
+    DependencyTrigger,
     IngestionData,
     IngestionTrigger,
     IngestionEvents,
-    IngestionTaskStatus
+    IngestionTaskStatus,
+    ITaskStore,
+    IngestionManagerOptions,
+    IngestionRunRecord,
+    RunHistoryQuery,
+    TriggerType,
+    ConcurrencyPolicy,
+    RetryPolicy,
+    BackoffType,
+    ManualTriggerOptions,
+    StopOptions,
+    RunContext,
+    DryRunPreview,
+    DryRunSampleItem,
+    IngestionTaskTemplate,
+    NamespaceConfig,
+    TemplateInstanceOptions
 } from './ingestion/interfaces';
 
-import { IngestionOrchestrator } from './ingestion/orchestrator';
+import { IngestionOrchestrator, OrchestratorDestination, TransformerChainStep } from './ingestion/orchestrator';
+import { ROUTER_TRANSFORMER_NAME, createRoutingTransformer, validateRouterParams } from './ingestion/TransformerRouter';
+import { InMemoryTaskStore } from './ingestion/TaskStore';
+import { WorkerPool } from './ingestion/WorkerPool';
+import { FileWatcher } from './ingestion/FileWatcher';
+import { JsonSchema, validateAgainstSchema } from './ingestion/ConfigSchema';
+import { emitIngestionEvent, getRunLogger, IngestionLogger, runWithContext } from './ingestion/RunContext';
+import { IngestionEventBus } from './ingestion/IngestionEventBus';
+import { diffTaskDefinition, renderTemplate, resolveTemplateParams, validateTemplate } from './ingestion/TaskTemplates';
+import { applyOutputRoot, getTaskNamespace, qualifyTaskId, validateNamespace, validateTaskId } from './ingestion/Namespaces';
 
 // Define a type for a Godspeed DataSource constructor with initClient
 type DataSourceConstructor = new (options: { config: any }) => GSDataSource & { initClient?: () => Promise<object> };
-// Define a type for a Destination Plugin constructor
-type DestinationConstructor = new () => IDestinationPlugin;
+
+// What happened to a trigger under the task's concurrency policy, reported in the returned GSStatus data
+type ConcurrencyDecision = 'started' | 'queued' | 'replaced' | 'concurrent' | 'skipped';
+
+const CONCURRENCY_POLICIES: ConcurrencyPolicy[] = ['skip', 'queue', 'replace', 'allow'];
+const BACKOFF_TYPES: BackoffType[] = ['fixed', 'linear', 'exponential'];
+const DEFAULT_MAX_CONCURRENT_RUNS = 4;
+const DEFAULT_RETRY_INITIAL_DELAY_MS = 1000;
+const DEFAULT_RETRY_MAX_DELAY_MS = 60000;
+const DEFAULT_MAX_CATCH_UP_RUNS = 10;
+// setTimeout cannot wait longer than this; longer waits are split into several timers
+const MAX_TIMER_DELAY_MS = 2147483647;
+
+// A run of a task that is currently in progress
+interface ActiveRun {
+    runId: string;
+    promise: Promise<GSStatus>;
+    superseded: boolean; // Set when a 'replace' trigger took over; the run no longer updates the task status
+    controller: AbortController; // Aborted by cancelRun(), the task's timeoutMs, a 'replace' trigger or stop()
+}
+
+// Status code used for runs that were cancelled before they finished (borrowed from nginx's "client closed request")
+const CANCELLED_STATUS_CODE = 499;
+// Task fields that the source, destination and transformer instances of an orchestrator are built from
+const ORCHESTRATOR_FIELDS: Array<keyof IngestionTaskDefinition> = ['source', 'destination', 'destinations', 'transformers', 'transformerParams'];
+const DEFAULT_DRAIN_TIMEOUT_MS = 25000;
+const DEFAULT_DRY_RUN_SAMPLE_SIZE = 5;
+const DEFAULT_DRY_RUN_CONTENT_LENGTH = 500;
+
+function getAbortReason(signal: AbortSignal): string {
+    return signal.reason instanceof Error ? signal.reason.message : String(signal.reason ?? 'cancelled');
+}
+
+// Fills in the settings a task config leaves out from the plugin's DEFAULT_CONFIG. Empty strings in
+// DEFAULT_CONFIG are placeholders for settings without a default (e.g. repoUrl) and are not copied.
+function mergeDefaultConfig(defaultConfig: any, config: any): any {
+    const merged: any = { ...(config || {}) };
+    for (const [key, value] of Object.entries(defaultConfig || {})) {
+        if (merged[key] === undefined && value !== '') {
+            merged[key] = value;
+        }
+    }
+    return merged;
+}
+
+// 'destination' followed by 'destinations', each with a unique name. Unnamed destinations are named
+// after their pluginType, with '#2', '#3', ... appended when the same plugin is used more than once.
+function resolveTaskDestinations(task: IngestionTaskDefinition): Array<IngestionDestinationDefinition & { name: string }> {
+    const definitions = [...(task.destination ? [task.destination] : []), ...(task.destinations || [])];
+    const usedNames = new Set(definitions.map(definition => definition.name).filter((name): name is string => !!name));
+    return definitions.map(definition => {
+        let name = definition.name;
+        for (let index = 1; !name; index++) {
+            const candidate = index === 1 ? definition.pluginType : `${definition.pluginType}#${index}`;
+            if (!usedNames.has(candidate)) {
+                name = candidate;
+            }
+        }
+        usedNames.add(name);
+        return { ...definition, name };
+    });
+}
+
+// Copy of the item for a dry-run preview, with its content cut to maxContentLength characters.
+// Buffers are not decoded; they are described by their size.
+function toDryRunSample(item: IngestionData, maxContentLength: number): DryRunSampleItem {
+    if (Buffer.isBuffer(item.content)) {
+        return { ...item, content: `<Buffer ${item.content.length} bytes>`, contentLength: item.content.length, contentTruncated: true };
+    }
+    const content = typeof item.content === 'string' ? item.content : JSON.stringify(item.content) ?? '';
+    const contentTruncated = content.length > maxContentLength;
+    return { ...item, content: contentTruncated ? `${content.slice(0, maxContentLength)}...` : content, contentLength: content.length, contentTruncated };
+}
+
+function isValidDate(value: Date | string | undefined): boolean {
+    return value !== undefined && value !== null && !isNaN(new Date(value).getTime());
+}
+
+function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
 
 export class GlobalIngestionLifecycleManager implements IGlobalIngestionLifecycleManager {
     private tasks: Map<string, IngestionTaskDefinition> = new Map();
-    private sourcePlugins: Map<string, { plugin: DataSourceConstructor, transformer: IngestionDataTransformer }> = new Map();
-    private destinationPlugins: Map<string, DestinationConstructor> = new Map();
+    private sourcePlugins: Map<string, { plugin: DataSourceConstructor, transformer: IngestionDataTransformer, configSchema?: JsonSchema, defaultConfig?: any }> = new Map();
+    private destinationPlugins: Map<string, { plugin: DestinationConstructor, configSchema?: JsonSchema }> = new Map();
+    private transformers: Map<string, IngestionDataTransformer> = new Map();
     private orchestrators: Map<string, IngestionOrchestrator> = new Map();
-    private eventBus: EventEmitter = new EventEmitter();
+    private templates: Map<string, IngestionTaskTemplate> = new Map(); // Not persisted; registered again on startup like plugins
+    private namespaces: Map<string, NamespaceConfig> = new Map();
+    private activeRuns: Map<string, ActiveRun[]> = new Map();
+    // Per task: triggers of a 'queue' policy task waiting for its active run before they enter the worker pool
+    private waitingTriggers: Map<string, number> = new Map();
+    private eventBus: IngestionEventBus = new IngestionEventBus();
     private lifecycleStarted: boolean = false;
-
-    constructor() {
-        logger.info('GlobalIngestionLifecycleManager initialized.');
+    private stopping: boolean = false; // Set by stop(): new triggers are rejected until start() is called again
+    private taskStore: ITaskStore;
+    private workerPool: WorkerPool;
+    private internalScheduler: boolean;
+    private contextFactory?: () => GSContext;
+    private triggerTimers: Map<string, NodeJS.Timeout> = new Map();
+    private fileWatchers: Map<string, FileWatcher> = new Map();
+    // Per dependency-triggered task: upstream task id -> final status of its qualifying run since the task last fired
+    private dependencyOutcomes: Map<string, Map<string, GSStatus>> = new Map();
+
+    constructor(options: IngestionManagerOptions = {}) {
+        this.taskStore = options.taskStore || new InMemoryTaskStore();
+        this.workerPool = new WorkerPool(options.maxConcurrentRuns ?? DEFAULT_MAX_CONCURRENT_RUNS, this.eventBus);
+        this.internalScheduler = options.internalScheduler ?? false;
+        this.contextFactory = options.contextFactory;
+        // Built in: sends each item to a sub-pipeline of other registered transformers (see TransformerRouter)
+        this.transformers.set(ROUTER_TRANSFORMER_NAME, createRoutingTransformer(name => this.transformers.get(name)));
+        for (const [namespace, config] of Object.entries(options.namespaces || {})) {
+            const status = this.setNamespaceConfig(namespace, config);
+            if (!status.success) {
+                throw new Error(`GlobalIngestionLifecycleManager: ${status.data.errors.join(' ')}`);
+            }
+        }
+        logger.info(`GlobalIngestionLifecycleManager initialized with task store '${this.taskStore.constructor.name}'.`);
     }
 
     public async init(): Promise<void> {
-        logger.info('GlobalIngestionLifecycleManager init called.');
-        return Promise.resolve();
+        logger.info('GlobalIngestionLifecycleManager init called. Loading persisted tasks.');
+        let storedTasks: IngestionTaskDefinition[] = [];
+        try {
+            storedTasks = await this.taskStore.loadTasks();
+        } catch (error: any) {
+            logger.error(`Failed to load tasks from task store: ${error.message}`, { error });
+            return;
+        }
+
+        for (const storedTask of storedTasks) {
+            if (this.tasks.has(storedTask.id)) {
+                logger.warn(`Task '${storedTask.id}' was already scheduled before init(). Keeping the in-memory definition.`);
+                continue;
+            }
+            // A task persisted as RUNNING was interrupted by a restart; it is not running anymore.
+            if (storedTask.currentStatus === IngestionTaskStatus.RUNNING) {
+                logger.warn(`Task '${storedTask.id}' was RUNNING when the process stopped. Resetting its status.`);
+                storedTask.currentStatus = storedTask.enabled ? IngestionTaskStatus.SCHEDULED : IngestionTaskStatus.DISABLED;
+                await this._persistTask(storedTask);
+            }
+            this.tasks.set(storedTask.id, storedTask);
+        }
+        logger.info(`GlobalIngestionLifecycleManager loaded ${storedTasks.length} tasks from the task store.`);
     }
 
     public async start(): Promise<void> {
@@ -56,51 +218,100 @@ export class GlobalIngestionLifecycleManager implements IGlobalIngestionLifecycl
             return Promise.resolve();
         }
         this.lifecycleStarted = true;
+        this.stopping = false;
         logger.info('GlobalIngestionLifecycleManager started. Setting up triggers for enabled tasks.');
         this.tasks.forEach(task => this._setupTrigger(task));
-        this.eventBus.emit(IngestionEvents.TASK_TRIGGERED, 'manager:start', 'Manager started');
+        emitIngestionEvent(this.eventBus, IngestionEvents.MANAGER_STARTED, undefined, undefined);
+        if (this.internalScheduler) {
+            // Nobody else ticks cron tasks in this mode, so run anything that is due or missed right away
+            this.triggerAllEnabledCronTasks(this._createInternalContext()).catch((error: any) => {
+                logger.error(`Initial cron check after start failed: ${error.message}`, { error });
+            });
+        }
         return Promise.resolve();
     }
 
-    public async stop(): Promise<void> {
+    // Stops accepting triggers, then waits for active runs to finish. Runs still going after drainTimeoutMs
+    // are cancelled; stop() resolves once every run has recorded its final state.
+    public async stop(options: StopOptions = {}): Promise<void> {
         if (!this.lifecycleStarted) {
             logger.warn('GlobalIngestionLifecycleManager is not running.');
             return Promise.resolve();
         }
+        const drainTimeoutMs = options.drainTimeoutMs ?? DEFAULT_DRAIN_TIMEOUT_MS;
         logger.info('GlobalIngestionLifecycleManager stopping. Clearing all active triggers.');
+        this.stopping = true;
         this.tasks.forEach(task => this._clearTrigger(task));
+        this.triggerTimers.forEach(timer => clearTimeout(timer));
+        this.triggerTimers.clear();
         this.lifecycleStarted = false;
-        this.eventBus.emit(IngestionEvents.TASK_TRIGGERED, 'manager:stop', 'Manager stopped');
-        return Promise.resolve();
+
+        await this._drainActiveRuns(drainTimeoutMs);
+        emitIngestionEvent(this.eventBus, IngestionEvents.MANAGER_STOPPED, undefined, undefined);
+        logger.info('GlobalIngestionLifecycleManager stopped.');
     }
 
-    public registerSource(pluginType: string, sourcePlugin: DataSourceConstructor, transformer: IngestionDataTransformer): void {
+    // configSchema (usually the plugin's exported CONFIG_SCHEMA) is checked against a task's config when it is scheduled or updated.
+    // defaultConfig (the plugin's DEFAULT_CONFIG) fills in settings a task's source.config leaves out.
+    public registerSource(pluginType: string, sourcePlugin: DataSourceConstructor, transformer: IngestionDataTransformer, configSchema?: JsonSchema, defaultConfig?: any): void {
         if (this.sourcePlugins.has(pluginType)) {
             logger.warn(`Source plugin '${pluginType}' already registered. Overwriting.`);
         }
-        this.sourcePlugins.set(pluginType, { plugin: sourcePlugin, transformer });
+        this.sourcePlugins.set(pluginType, { plugin: sourcePlugin, transformer, configSchema, defaultConfig });
         logger.info(`Source plugin '${pluginType}' registered.`);
     }
 
-    public registerDestination(pluginType: string, destinationPlugin: DestinationConstructor): void {
+    // configSchema is checked against the config of every destination that uses this plugin type.
+    public registerDestination(pluginType: string, destinationPlugin: DestinationConstructor, configSchema?: JsonSchema): void {
         if (this.destinationPlugins.has(pluginType)) {
             logger.warn(`Destination plugin '${pluginType}' already registered. Overwriting.`);
         }
-        this.destinationPlugins.set(pluginType, destinationPlugin);
+        this.destinationPlugins.set(pluginType, { plugin: destinationPlugin, configSchema });
         logger.info(`Destination plugin '${pluginType}' registered.`);
     }
 
-    public async scheduleTask(taskDefinition: IngestionTaskDefinition): Promise<GSStatus> {
-        // console.log("--- DEBUG: scheduleTask - Incoming taskDefinition (RAW) ---");
-        // console.log(taskDefinition); // Print the object directly
-        // console.log("--- END DEBUG: scheduleTask - Incoming taskDefinition (RAW) ---");
+    // Named transformers can be chained per task through IngestionTaskDefinition.transformers
+    public registerTransformer(name: string, transformer: IngestionDataTransformer): void {
+        if (this.transformers.has(name)) {
+            logger.warn(`Transformer '${name}' already registered. Overwriting.`);
+        }
+        this.transformers.set(name, transformer);
+        logger.info(`Transformer '${name}' registered.`);
+    }
 
-        
-        const taskId: string = taskDefinition.id || randomUUID();
+    public async scheduleTask(taskDefinition: IngestionTaskDefinition): Promise<GSStatus> {
+        const namespaceErrors = [
+            ...(taskDefinition.namespace !== undefined ? validateNamespace(taskDefinition.namespace) : []),
+            ...(taskDefinition.id ? validateTaskId(taskDefinition.namespace, taskDefinition.id) : []),
+        ];
+        if (namespaceErrors.length > 0) {
+            return { success: false, code: 400, message: `Invalid namespace for task '${taskDefinition.id}'.`, data: { errors: namespaceErrors } };
+        }
+        // Ids only need to be unique within their namespace
+        const taskId: string = qualifyTaskId(taskDefinition.namespace, taskDefinition.id || randomUUID());
         if (this.tasks.has(taskId)) {
             logger.warn(`Task '${taskId}' already exists. Use updateTask to modify.`);
             return { success: false, message: `Task '${taskId}' already exists.` };
         }
+        const triggerErrors = this._validateTrigger(taskDefinition.trigger, taskDefinition.namespace);
+        const cycle = this._findDependencyCycle(taskId, taskDefinition.trigger, taskDefinition.namespace);
+        if (cycle) {
+            triggerErrors.push(`Dependency cycle detected: ${cycle.join(' -> ')}.`);
+        }
+        if (triggerErrors.length > 0) {
+            logger.warn(`Task '${taskId}' rejected: invalid trigger. ${triggerErrors.join(' ')}`);
+            return { success: false, code: 400, message: `Invalid trigger for task '${taskId}'.`, data: { errors: triggerErrors } };
+        }
+        const settingErrors = this._validateRunSettings(taskDefinition);
+        if (settingErrors.length > 0) {
+            logger.warn(`Task '${taskId}' rejected: invalid run settings. ${settingErrors.join(' ')}`);
+            return { success: false, code: 400, message: `Invalid run settings for task '${taskId}'.`, data: { errors: settingErrors } };
+        }
+        const configErrors = this._validateTaskConfigs(taskDefinition);
+        if (configErrors.length > 0) {
+            logger.warn(`Task '${taskId}' rejected: invalid plugin config. ${configErrors.join(' ')}`);
+            return { success: false, code: 400, message: `Invalid plugin config for task '${taskId}'.`, data: { errors: configErrors } };
+        }
         //  logger.info(`[GlobalIngestionLifecycleManager] Debugging clonedTaskDefinition BEFORE storing in map (Task ID: ${taskId}):`, taskDefinition);
         const clonedTaskDefinition: IngestionTaskDefinition = JSON.parse(JSON.stringify(taskDefinition));
 
@@ -112,11 +323,12 @@ export class GlobalIngestionLifecycleManager implements IGlobalIngestionLifecycl
 
     //  logger.info(`[GlobalIngestionLifecycleManager] Debugging clonedTaskDefinition BEFORE storing in map (Task ID: ${taskId}):`, JSON.stringify(clonedTaskDefinition, null, 2));
     this.tasks.set(taskId, clonedTaskDefinition); // Store the cloned object
+    await this._persistTask(clonedTaskDefinition);
     logger.info(`Task '${taskId}' scheduled.`);
 
     // FIX: Use Map.get() to retrieve the stored object for logging
     logger.info(`[GlobalIngestionLifecycleManager] Debugging task object STORED in map (Task ID: ${taskId}):`, JSON.stringify(this.tasks.get(taskId), null, 2));
-    this.eventBus.emit(IngestionEvents.TASK_SCHEDULED, taskId, clonedTaskDefinition); // Emit cloned object
+    emitIngestionEvent(this.eventBus, IngestionEvents.TASK_SCHEDULED, taskId, clonedTaskDefinition); // Emit cloned object
 
     if (this.lifecycleStarted) {
         this._setupTrigger(clonedTaskDefinition); // Use cloned object for setup
@@ -130,15 +342,62 @@ export class GlobalIngestionLifecycleManager implements IGlobalIngestionLifecycl
             logger.warn(`Task '${taskId}' not found for update.`);
             return { success: false, message: `Task '${taskId}' not found.` };
         }
+        if ('namespace' in updates && getTaskNamespace(updates) !== getTaskNamespace(task)) {
+            // The namespace is part of the task id; move a task by deleting and scheduling it again
+            return { success: false, code: 400, message: `The namespace of task '${taskId}' cannot be changed.` };
+        }
+        if (updates.trigger) {
+            const triggerErrors = this._validateTrigger(updates.trigger, task.namespace);
+            const cycle = this._findDependencyCycle(taskId, updates.trigger, task.namespace);
+            if (cycle) {
+                triggerErrors.push(`Dependency cycle detected: ${cycle.join(' -> ')}.`);
+            }
+            if (triggerErrors.length > 0) {
+                logger.warn(`Update of task '${taskId}' rejected: invalid trigger. ${triggerErrors.join(' ')}`);
+                return { success: false, code: 400, message: `Invalid trigger for task '${taskId}'.`, data: { errors: triggerErrors } };
+            }
+        }
+        // Settings the update leaves out were checked when they were set
+        const settingErrors = this._validateRunSettings(updates);
+        if (settingErrors.length > 0) {
+            logger.warn(`Update of task '${taskId}' rejected: invalid run settings. ${settingErrors.join(' ')}`);
+            return { success: false, code: 400, message: `Invalid run settings for task '${taskId}'.`, data: { errors: settingErrors } };
+        }
+        if (updates.source || updates.destination || updates.destinations || updates.transformers) {
+            const configErrors = this._validateTaskConfigs({ ...task, ...updates });
+            if (configErrors.length > 0) {
+                logger.warn(`Update of task '${taskId}' rejected: invalid plugin config. ${configErrors.join(' ')}`);
+                return { success: false, code: 400, message: `Invalid plugin config for task '${taskId}'.`, data: { errors: configErrors } };
+            }
+        }
+
+        // A change of 'enabled' goes through disableTask/enableTask, so the status, events and trigger
+        // follow it. Disabling comes first, so no trigger is set up for the updated definition.
+        const { enabled, ...otherUpdates } = updates;
+        const enabledChange = enabled !== undefined && enabled !== task.enabled ? enabled : undefined;
+        if (enabledChange === false) {
+            await this.disableTask(taskId);
+        }
 
         this._clearTrigger(task);
+        if (updates.trigger) {
+            // Upstream outcomes collected under the previous trigger no longer count
+            this.dependencyOutcomes.delete(taskId);
+        }
 
-        const updatedTask = { ...task, ...updates };
+        const updatedTask = { ...task, ...otherUpdates };
         this.tasks.set(taskId, updatedTask);
+        // The next run builds new plugin instances from the updated definition
+        if (ORCHESTRATOR_FIELDS.some(field => field in updates)) {
+            this._invalidateOrchestrator(taskId);
+        }
+        await this._persistTask(updatedTask);
         logger.info(`Task '${taskId}' updated.`);
-        this.eventBus.emit(IngestionEvents.TASK_UPDATED, taskId, updatedTask);
+        emitIngestionEvent(this.eventBus, IngestionEvents.TASK_UPDATED, taskId, updatedTask);
 
-        if (this.lifecycleStarted) {
+        if (enabledChange === true) {
+            await this.enableTask(taskId);
+        } else if (this.lifecycleStarted) {
             this._setupTrigger(updatedTask);
         }
         return { success: true, message: `Task '${taskId}' updated successfully.` };
@@ -155,8 +414,9 @@ export class GlobalIngestionLifecycleManager implements IGlobalIngestionLifecycl
         }
         task.enabled = true;
         task.currentStatus = IngestionTaskStatus.SCHEDULED;
+        await this._persistTask(task);
         logger.info(`Task '${taskId}' enabled.`);
-        this.eventBus.emit(IngestionEvents.TASK_ENABLED, taskId, task);
+        emitIngestionEvent(this.eventBus, IngestionEvents.TASK_ENABLED, taskId, task);
         if (this.lifecycleStarted) {
             this._setupTrigger(task);
         }
@@ -174,9 +434,11 @@ export class GlobalIngestionLifecycleManager implements IGlobalIngestionLifecycl
         }
         task.enabled = false;
         task.currentStatus = IngestionTaskStatus.DISABLED;
+        await this._persistTask(task);
         logger.info(`Task '${taskId}' disabled.`);
-        this.eventBus.emit(IngestionEvents.TASK_DISABLED, taskId, task);
+        emitIngestionEvent(this.eventBus, IngestionEvents.TASK_DISABLED, taskId, task);
         this._clearTrigger(task);
+        this.dependencyOutcomes.delete(taskId);
         return { success: true, message: `Task '${taskId}' disabled successfully.` };
     }
 
@@ -186,39 +448,184 @@ export class GlobalIngestionLifecycleManager implements IGlobalIngestionLifecycl
             return { success: false, message: `Task '${taskId}' not found.` };
         }
         this._clearTrigger(task);
+        this.dependencyOutcomes.delete(taskId);
         this.tasks.delete(taskId);
         this.orchestrators.delete(taskId);
+        try {
+            await this.taskStore.deleteTask(taskId);
+        } catch (error: any) {
+            logger.error(`Failed to delete task '${taskId}' from task store: ${error.message}`, { error });
+        }
         logger.info(`Task '${taskId}' deleted.`);
-        this.eventBus.emit(IngestionEvents.TASK_DELETED, taskId);
+        emitIngestionEvent(this.eventBus, IngestionEvents.TASK_DELETED, taskId, undefined);
         return { success: true, message: `Task '${taskId}' deleted successfully.` };
     }
 
+    // Rebuilds the task's source, destinations and orchestrator from its current definition, e.g. after a
+    // credentials file or environment variable it reads has changed. Runs in progress finish on the
+    // instances they started with; later runs use the new ones.
+    public async reloadTask(taskId: string): Promise<GSStatus> {
+        const task = this.tasks.get(taskId);
+        if (!task) {
+            return { success: false, message: `Task '${taskId}' not found.` };
+        }
+        this._invalidateOrchestrator(taskId);
+        let orchestratorResult: { orchestrator?: IngestionOrchestrator, status: GSStatus };
+        try {
+            orchestratorResult = await this._getOrchestrator(task, false);
+        } catch (error: any) {
+            orchestratorResult = { status: { success: false, code: 500, message: error.message } };
+        }
+        if (!orchestratorResult.orchestrator) {
+            logger.error(`Task '${taskId}' could not be reloaded: ${orchestratorResult.status.message}`);
+            return { ...orchestratorResult.status, message: `Task '${taskId}' could not be reloaded: ${orchestratorResult.status.message}` };
+        }
+        const activeRunIds = this._getActiveRuns(taskId).map(run => run.runId);
+        logger.info(`Task '${taskId}' reloaded.${activeRunIds.length > 0 ? ` Runs in progress (${activeRunIds.join(', ')}) keep their previous instances.` : ''}`);
+        emitIngestionEvent(this.eventBus, IngestionEvents.TASK_RELOADED, taskId, { activeRunIds });
+        return { success: true, message: `Task '${taskId}' reloaded successfully.`, data: { activeRunIds } };
+    }
+
     public getTask(taskId: string): IngestionTaskDefinition | undefined {
         return this.tasks.get(taskId);
     }
 
-    public listTasks(): IngestionTaskDefinition[] {
-        return Array.from(this.tasks.values());
+    public listTasks(namespace?: string): IngestionTaskDefinition[] {
+        const tasks = Array.from(this.tasks.values());
+        return namespace === undefined ? tasks : tasks.filter(task => getTaskNamespace(task) === namespace);
+    }
+
+    // Replaces the namespace's limits. Tasks already scheduled are not checked again, but their
+    // next run uses the new source type and output root rules.
+    public setNamespaceConfig(namespace: string, config: NamespaceConfig): GSStatus {
+        const errors = validateNamespace(namespace, config);
+        if (errors.length > 0) {
+            logger.warn(`Config of namespace '${namespace}' rejected. ${errors.join(' ')}`);
+            return { success: false, code: 400, message: `Invalid config for namespace '${namespace}'.`, data: { errors } };
+        }
+        this.namespaces.set(namespace, { ...config });
+        this.workerPool.setNamespaceLimit(namespace, config.maxConcurrentRuns);
+        for (const task of this.listTasks(namespace)) {
+            this._invalidateOrchestrator(task.id);
+        }
+        logger.info(`Namespace '${namespace}' configured.`);
+        return { success: true, message: `Namespace '${namespace}' configured successfully.` };
+    }
+
+    public getNamespaceConfig(namespace: string): NamespaceConfig | undefined {
+        return this.namespaces.get(namespace);
+    }
+
+    public listNamespaces(): string[] {
+        const namespaces = new Set([...this.namespaces.keys(), ...this.listTasks().map(task => getTaskNamespace(task))]);
+        return Array.from(namespaces).sort();
+    }
+
+    // Registers a template, or replaces it and re-renders every instance from the new version.
+    // Instances keep their own parameters and enabled state. An instance whose new definition is
+    // rejected keeps its previous one and is reported in data.failed (code 207).
+    public async registerTemplate(template: IngestionTaskTemplate): Promise<GSStatus> {
+        const errors = validateTemplate(template);
+        if (errors.length > 0) {
+            logger.warn(`Template '${template?.id}' rejected. ${errors.join(' ')}`);
+            return { success: false, code: 400, message: `Invalid template '${template?.id}'.`, data: { errors } };
+        }
+        const replaced = this.templates.has(template.id);
+        const clonedTemplate: IngestionTaskTemplate = JSON.parse(JSON.stringify(template));
+        this.templates.set(template.id, clonedTemplate);
+        logger.info(`Template '${template.id}' ${replaced ? 'replaced' : 'registered'}.`);
+
+        const instanceIds = this.listTemplateInstances(template.id).map(task => task.id);
+        const failed: Array<{ taskId: string, message?: string, errors?: string[] }> = [];
+        for (const taskId of instanceIds) {
+            const instance = this.tasks.get(taskId)!;
+            const status = await this._applyTemplate(clonedTemplate, taskId, instance.template!.params, { enabled: instance.enabled, namespace: instance.namespace, sourceFile: instance.sourceFile });
+            if (!status.success) {
+                failed.push({ taskId, message: status.message, errors: status.data?.errors });
+            }
+        }
+        emitIngestionEvent(this.eventBus, IngestionEvents.TEMPLATE_REGISTERED, undefined, { template: clonedTemplate, instanceIds });
+
+        if (failed.length > 0) {
+            logger.warn(`Template '${template.id}' could not be applied to ${failed.length} of ${instanceIds.length} instances: ${failed.map(failure => failure.taskId).join(', ')}.`);
+            return { success: true, code: 207, message: `Template '${template.id}' registered; ${failed.length} of ${instanceIds.length} instances kept their previous definition.`, data: { instanceIds, failed } };
+        }
+        return { success: true, message: `Template '${template.id}' registered successfully.`, data: { instanceIds } };
+    }
+
+    public async deleteTemplate(templateId: string): Promise<GSStatus> {
+        if (!this.templates.has(templateId)) {
+            return { success: false, message: `Template '${templateId}' not found.` };
+        }
+        const instanceIds = this.listTemplateInstances(templateId).map(task => task.id);
+        if (instanceIds.length > 0) {
+            logger.warn(`Template '${templateId}' still has instances (${instanceIds.join(', ')}). Not deleting it.`);
+            return { success: false, code: 409, message: `Template '${templateId}' still has ${instanceIds.length} instances.`, data: { instanceIds } };
+        }
+        this.templates.delete(templateId);
+        logger.info(`Template '${templateId}' deleted.`);
+        emitIngestionEvent(this.eventBus, IngestionEvents.TEMPLATE_DELETED, undefined, { templateId });
+        return { success: true, message: `Template '${templateId}' deleted successfully.` };
+    }
+
+    public getTemplate(templateId: string): IngestionTaskTemplate | undefined {
+        return this.templates.get(templateId);
+    }
+
+    public listTemplates(): IngestionTaskTemplate[] {
+        return Array.from(this.templates.values());
+    }
+
+    public async instantiateTemplate(templateId: string, taskId: string, params: { [name: string]: any }, options: TemplateInstanceOptions = {}): Promise<GSStatus> {
+        const template = this.templates.get(templateId);
+        if (!template) {
+            return { success: false, message: `Template '${templateId}' not found.` };
+        }
+        const idErrors = validateTaskId(options.namespace, taskId);
+        if (idErrors.length > 0) {
+            return { success: false, code: 400, message: `Invalid id for task '${taskId}'.`, data: { errors: idErrors } };
+        }
+        taskId = qualifyTaskId(options.namespace, taskId);
+        const existing = this.tasks.get(taskId);
+        if (existing && existing.template?.id !== templateId) {
+            logger.warn(`Task '${taskId}' already exists and is not an instance of template '${templateId}'.`);
+            return { success: false, code: 409, message: `Task '${taskId}' already exists and is not an instance of template '${templateId}'.` };
+        }
+        return this._applyTemplate(template, taskId, params || {}, {
+            ...options,
+            enabled: options.enabled ?? existing?.enabled,
+            sourceFile: options.sourceFile ?? existing?.sourceFile,
+        });
+    }
+
+    // Tasks are only linked to a template by their 'template' reference, so restored instances are
+    // listed even before their template is registered again.
+    public listTemplateInstances(templateId: string, namespace?: string): IngestionTaskDefinition[] {
+        return this.listTasks(namespace).filter(task => task.template?.id === templateId);
     }
 
-    public async triggerManualTask(ctx: GSContext,taskId: string, initialPayload?: any): Promise<GSStatus> {
+    public async triggerManualTask(ctx: GSContext,taskId: string, initialPayload?: any, options: ManualTriggerOptions = {}): Promise<GSStatus> {
         const task = this.tasks.get(taskId);
         if (!task) {
             logger.warn(`Manual trigger failed: Task '${taskId}' not found.`);
             return { success: false, message: `Task '${taskId}' not found.` };
         }
+        if (options.dryRun) {
+            return this._dryRunTask(ctx, task, initialPayload, options);
+        }
         if (!task.enabled) {
             logger.warn(`Manual trigger failed: Task '${taskId}' is disabled.`);
             return { success: false, message: `Task '${taskId}' is disabled.` };
         }
         logger.info(`Manual trigger activated for task '${taskId}'.`);
-        // Pass a minimal context here
-        return this._executeIngestionTask(ctx,task.id, task, initialPayload);
+        return this._enqueueIngestionTask(ctx, task, initialPayload, 'manual');
     }
 
-    public async triggerWebhookTask(ctx: GSContext,endpointId: string, payload: any): Promise<GSStatus> {
-        logger.info(`Webhook trigger received for endpointId: '${endpointId}'.`);
-        const tasksToTrigger = Array.from(this.tasks.values()).filter(
+    // Endpoint ids are shared by all namespaces (they come from the app's HTTP events); pass a namespace
+    // to trigger only that namespace's tasks for the endpoint.
+    public async triggerWebhookTask(ctx: GSContext,endpointId: string, payload: any, namespace?: string): Promise<GSStatus> {
+        logger.info(`Webhook trigger received for endpointId: '${endpointId}'${namespace ? ` in namespace '${namespace}'` : ''}.`);
+        const tasksToTrigger = this.listTasks(namespace).filter(
             task => task.enabled && task.trigger.type === 'webhook' && (task.trigger as WebhookTrigger).endpointId === endpointId
         );
 
@@ -227,13 +634,11 @@ export class GlobalIngestionLifecycleManager implements IGlobalIngestionLifecycl
             return { success: false, message: `No enabled webhook task found for endpointId: '${endpointId}'.` };
         }
 
-        const results: { taskId: string; status: GSStatus }[] = [];
-        for (const task of tasksToTrigger) {
-            logger.info(`Executing webhook-triggered task: ${task.id} with payload.`);
-            // Pass a minimal context here
-            const status = await this._executeIngestionTask(ctx,task.id, task, { webhookPayload: payload });
-            results.push({ taskId: task.id, status });
-        }
+        const results: { taskId: string; status: GSStatus }[] = await Promise.all(tasksToTrigger.map(async task => {
+            logger.info(`Queuing webhook-triggered task: ${task.id} with payload.`);
+            const status = await this._enqueueIngestionTask(ctx, task, { webhookPayload: payload }, 'webhook');
+            return { taskId: task.id, status };
+        }));
 
         const successful = results.filter(r => r.status.success).length;
         const failed = results.length - successful;
@@ -250,43 +655,19 @@ export class GlobalIngestionLifecycleManager implements IGlobalIngestionLifecycl
     // FIX: Use ctx.event?.time for 'now' to align with Godspeed's event timestamp, with fallback
     const now = new Date((ctx as any).event?.time || new Date().toISOString());
     const results: { taskId: string; status: GSStatus }[] = [];
+    const dueRuns: Promise<{ taskId: string; status: GSStatus }>[] = [];
     let tasksDueCount = 0;
 
     for (const task of this.tasks.values()) {
-        logger.info("TASK (from glb)", { task });
 
         if (task.enabled && task.trigger.type === 'cron') {
             const cronTrigger = task.trigger as CronTrigger;
             try {
                 // Use 'now' (derived from ctx.event.time) for currentDate in cron-parser
-                const interval = CronExpressionParser.parse(cronTrigger.expression, { currentDate: now });
-                const previousRunTime = interval.prev().toDate(); // Last scheduled time before or at 'now'
-
-                // FIX: Define a wider, robust window (e.g., 65 seconds)
-                const sixtyFiveSecondsAgo = new Date(now.getTime() - (65 * 1000));
-
-                // FIX: Modified checking condition with the robust window and lastRun check
-                // Condition:
-                // 1. previousRunTime must be after the 'sixtyFiveSecondsAgo' mark (it's recent)
-                // 2. previousRunTime must be at or before 'now' (it's not in the future)
-                // 3. AND (crucially) the task's lastRun must be undefined (never run)
-                //    OR the task's lastRun must be older than this specific previousRunTime.
-                //    This prevents re-running a task for the same scheduled interval if the trigger fires multiple times.
-                if (previousRunTime > sixtyFiveSecondsAgo && previousRunTime <= now &&
-                    (!task.lastRun || task.lastRun < previousRunTime)) {
-
-                    logger.info(`Executing cron-triggered task: ${task.id} (expression: ${cronTrigger.expression}, last due: ${previousRunTime.toISOString()}).`);
+                const dueRun = this._runDueCronTask(ctx, task, now);
+                if (dueRun) {
                     tasksDueCount++;
-                    // Pass a minimal context here
-                    const status = await this._executeIngestionTask(ctx, task.id, task);
-                    results.push({ taskId: task.id, status });
-                } else {
-                    // FIX: Updated debug log to use sixtyFiveSecondsAgo
-                    logger.debug(`Task '${task.id}' (cron: ${cronTrigger.expression}) not due. ` +
-                                      `prevRun: ${previousRunTime.toISOString()}, ` +
-                                      `now: ${now.toISOString()}, ` +
-                                      `sixtyFiveSecondsAgo: ${sixtyFiveSecondsAgo.toISOString()}. ` +
-                                      `lastRun: ${task.lastRun ? task.lastRun.toISOString() : 'never'}.`);
+                    dueRuns.push(dueRun);
                 }
             } catch (error: any) {
                 logger.error(`Error parsing cron expression for task '${task.id}': ${cronTrigger.expression}. Error: ${error.message}`);
@@ -295,6 +676,9 @@ export class GlobalIngestionLifecycleManager implements IGlobalIngestionLifecycl
         }
     }
 
+    // Due tasks run through the worker pool, highest priority first
+    results.push(...await Promise.all(dueRuns));
+
     if (tasksDueCount === 0) {
         logger.info("No enabled cron tasks were due at this time.");
         return { success: true, message: "No enabled cron tasks were due." };
@@ -308,123 +692,679 @@ export class GlobalIngestionLifecycleManager implements IGlobalIngestionLifecycl
     return { success: true, message: `Successfully triggered ${successful} cron tasks.` };
 }
 
-    public getEventBus(): EventEmitter {
+    public async getRunHistory(taskId: string, query?: RunHistoryQuery): Promise<IngestionRunRecord[]> {
+        try {
+            return await this.taskStore.getRunRecords(taskId, query);
+        } catch (error: any) {
+            logger.error(`Failed to read run history for task '${taskId}': ${error.message}`, { error });
+            return [];
+        }
+    }
+
+    // Aborts the active run(s) of a task and resolves once they have settled. Runs still waiting
+    // in the worker pool queue are not affected.
+    public async cancelRun(taskId: string, runId?: string): Promise<GSStatus> {
+        if (!this.tasks.has(taskId)) {
+            return { success: false, code: 404, message: `Task '${taskId}' not found.` };
+        }
+        const runsToCancel = this._getActiveRuns(taskId).filter(run => !runId || run.runId === runId);
+        if (runsToCancel.length === 0) {
+            const target = runId ? `Run '${runId}' of task '${taskId}'` : `Task '${taskId}'`;
+            logger.warn(`${target} is not running. Nothing to cancel.`);
+            return { success: false, code: 404, message: `${target} is not running.`, data: { code: 'RUN_NOT_ACTIVE' } };
+        }
+        const runIds = runsToCancel.map(run => run.runId);
+        logger.info(`Cancelling runs ${runIds.join(', ')} of task '${taskId}'.`);
+        runsToCancel.forEach(run => run.controller.abort(new Error('Cancelled by request')));
+        await Promise.allSettled(runsToCancel.map(run => run.promise));
+        return { success: true, message: `Cancelled ${runIds.length} run(s) of task '${taskId}'.`, data: { runIds } };
+    }
+
+    public getEventBus(): IngestionEventBus {
         return this.eventBus;
     }
 
-    private async _executeIngestionTask(ctx: GSContext,taskId: string, taski: IngestionTaskDefinition, initialPayload?: any): Promise<GSStatus> {
-        const task  = this.tasks.get(taskId)  as IngestionTaskDefinition;
-        console.log(`--- DEBUG: _executeIngestionTask - Task object retrieved for execution (Task ID: ${taskId}) (RAW) ---`);
-        
-        console.log(task); // Print the retrieved task object directly
-        console.log(`--- END DEBUG: _executeIngestionTask - Task object retrieved for execution (Task ID: ${taskId}) (RAW) ---`);
-        
+    // Queues the run(s) of a cron task that are due at 'now' and returns their outcome, or undefined when
+    // nothing is due. Used for the external tick and the internal scheduler alike, so both apply the same
+    // catch-up policy and never queue a task that already has a trigger waiting.
+    private _runDueCronTask(ctx: GSContext, task: IngestionTaskDefinition, now: Date): Promise<{ taskId: string; status: GSStatus }> | undefined {
+        const cronTrigger = task.trigger as CronTrigger;
+        if (this._hasPendingTrigger(task.id)) {
+            logger.debug(`Task '${task.id}' already has a trigger waiting to run. Not queuing it again.`);
+            return undefined;
+        }
+        const interval = this._parseCron(cronTrigger, now);
+        const previousRunTime = interval.prev().toDate(); // Last scheduled time before or at 'now'
+
+        // FIX: Define a wider, robust window (e.g., 65 seconds)
+        const sixtyFiveSecondsAgo = new Date(now.getTime() - (65 * 1000));
+
+        // Scheduled times missed since lastRun (downtime, slow ticks), according to the trigger's catch-up policy
+        const missedRunTimes = this._getMissedCronRunTimes(task, cronTrigger, now);
+        if (missedRunTimes.length > 0) {
+            logger.info(`Queuing ${missedRunTimes.length} cron run(s) of task ${task.id} to catch up (policy: ${cronTrigger.catchUp}, ` +
+                        `scheduled: ${missedRunTimes.map(runTime => runTime.toISOString()).join(', ')}).`);
+            return this._runCronOccurrences(ctx, task, missedRunTimes);
+        }
+
+        // FIX: Modified checking condition with the robust window and lastRun check
+        // Condition:
+        // 1. previousRunTime must be after the 'sixtyFiveSecondsAgo' mark (it's recent)
+        // 2. previousRunTime must be at or before 'now' (it's not in the future)
+        // 3. AND (crucially) the task's lastRun must be undefined (never run)
+        //    OR the task's lastRun must be older than this specific previousRunTime.
+        //    This prevents re-running a task for the same scheduled interval if the trigger fires multiple times.
+        if (previousRunTime > sixtyFiveSecondsAgo && previousRunTime <= now &&
+            (!task.lastRun || task.lastRun < previousRunTime)) {
+            logger.info(`Queuing cron-triggered task: ${task.id} (expression: ${cronTrigger.expression}, last due: ${previousRunTime.toISOString()}).`);
+            return this._enqueueIngestionTask(ctx, task, undefined, 'cron').then(status => ({ taskId: task.id, status }));
+        }
+
+        // FIX: Updated debug log to use sixtyFiveSecondsAgo
+        logger.debug(`Task '${task.id}' (cron: ${cronTrigger.expression}) not due. ` +
+                     `prevRun: ${previousRunTime.toISOString()}, ` +
+                     `now: ${now.toISOString()}, ` +
+                     `sixtyFiveSecondsAgo: ${sixtyFiveSecondsAgo.toISOString()}. ` +
+                     `lastRun: ${task.lastRun ? task.lastRun.toISOString() : 'never'}.`);
+        return undefined;
+    }
+
+    // Returns the scheduled times in (lastRun, now] that should still run, oldest first.
+    // 'none' (the default) never catches up, 'latest' keeps only the most recent missed time and
+    // 'all' keeps up to maxCatchUpRuns of the most recent ones. A task that never ran has nothing to catch up.
+    private _getMissedCronRunTimes(task: IngestionTaskDefinition, cronTrigger: CronTrigger, now: Date): Date[] {
+        const policy = cronTrigger.catchUp || 'none';
+        if (policy === 'none' || !task.lastRun) {
+            return [];
+        }
+        const limit = policy === 'latest' ? 1 : Math.max(1, cronTrigger.maxCatchUpRuns ?? DEFAULT_MAX_CATCH_UP_RUNS);
+        const interval = this._parseCron(cronTrigger, now);
+        const runTimes: Date[] = [];
+        while (true) {
+            const runTime = interval.prev().toDate();
+            if (runTime <= task.lastRun) {
+                break;
+            }
+            if (runTimes.length >= limit) {
+                if (policy === 'all') {
+                    logger.warn(`Task '${task.id}' missed more than ${limit} cron runs since ${task.lastRun.toISOString()}. Only the ${limit} most recent will run.`);
+                }
+                break;
+            }
+            runTimes.push(runTime);
+        }
+        return runTimes.reverse();
+    }
 
-        console.log("START DEBUG------CTX FROM executetask---------")
-        console.log(ctx)
-        console.log("END DEBUG------CTX FROM executetask---------")
+    // Runs the given scheduled occurrences of a cron task one after another, so that the
+    // task's concurrency policy does not drop them, and aggregates their outcome.
+    private async _runCronOccurrences(ctx: GSContext, task: IngestionTaskDefinition, runTimes: Date[]): Promise<{ taskId: string; status: GSStatus }> {
+        const occurrences: { scheduledTime: string; status: GSStatus }[] = [];
+        for (const runTime of runTimes) {
+            const scheduledTime = runTime.toISOString();
+            const status = await this._enqueueIngestionTask(ctx, task, { scheduledTime, catchUp: true }, 'cron');
+            occurrences.push({ scheduledTime, status });
+        }
+        const failed = occurrences.filter(occurrence => !occurrence.status.success).length;
+        const status: GSStatus = failed > 0
+            ? { success: false, message: `Catch-up of task '${task.id}': ${failed} of ${occurrences.length} runs failed.`, data: { occurrences } }
+            : { success: true, message: `Catch-up of task '${task.id}': ${occurrences.length} runs completed.`, data: { occurrences } };
+        return { taskId: task.id, status };
+    }
 
+    // Puts a triggered run into the worker pool queue; resolves with the run's final status.
+    // A trigger of a 'queue' policy task waits for the task's active run here, before it is submitted,
+    // so that it does not hold a worker slot other tasks could use while it waits.
+    private async _enqueueIngestionTask(ctx: GSContext, task: IngestionTaskDefinition, initialPayload: any, triggerType: TriggerType): Promise<GSStatus> {
+        let queued = false;
+        while (true) {
+            if (this.stopping) {
+                return this._stoppingStatus(task.id, triggerType);
+            }
+            const currentTask = this.tasks.get(task.id) || task;
+            const activeRuns = this._getActiveRuns(task.id);
+            if (currentTask.concurrencyPolicy === 'queue' && activeRuns.length > 0) {
+                if (!queued) {
+                    logger.info(`Task '${task.id}' is already running. Queuing this trigger until the active run finishes (concurrency policy 'queue').`);
+                }
+                queued = true;
+                this.waitingTriggers.set(task.id, (this.waitingTriggers.get(task.id) || 0) + 1);
+                await Promise.allSettled(activeRuns.map(run => run.promise));
+                const waiting = (this.waitingTriggers.get(task.id) || 1) - 1;
+                if (waiting > 0) {
+                    this.waitingTriggers.set(task.id, waiting);
+                } else {
+                    this.waitingTriggers.delete(task.id);
+                }
+                continue;
+            }
+            const status = await this.workerPool.submit(currentTask.id, currentTask.priority ?? 0, () => this._executeIngestionTask(ctx, task.id, initialPayload, triggerType, queued), { namespace: getTaskNamespace(currentTask) });
+            // Another trigger started a run while this one waited for a worker slot; wait for that run as well
+            if (status.data?.code !== 'TASK_STILL_RUNNING') {
+                return status;
+            }
+            queued = true;
+        }
+    }
 
+    // queued tells that the trigger already waited for an earlier run (concurrency policy 'queue')
+    private async _executeIngestionTask(ctx: GSContext, taskId: string, initialPayload?: any, triggerType: TriggerType = 'manual', queued: boolean = false): Promise<GSStatus> {
+        const task = this.tasks.get(taskId);
+        if (!task) {
+            logger.warn(`Attempted to execute unknown task '${taskId}'. Skipping.`);
+            return { success: false, message: `Task '${taskId}' not found.`, data: { code: 'TASK_NOT_FOUND' } };
+        }
         if (!task.enabled) {
             logger.warn(`Attempted to execute disabled task '${taskId}'. Skipping.`);
             return { success: false, message: `Task '${taskId}' is disabled.`, data: { code: 'TASK_DISABLED' } };
         }
+        // Runs still waiting in the worker pool when stop() was called do not start
+        if (this.stopping) {
+            return this._stoppingStatus(taskId, triggerType);
+        }
+
+        // Enforce the task's concurrency policy while a previous run is still in progress
+        let decision: ConcurrencyDecision = queued ? 'queued' : 'started';
+        const activeRuns = this._getActiveRuns(taskId);
+        if (activeRuns.length > 0) {
+            const policy: ConcurrencyPolicy = task.concurrencyPolicy || 'skip';
+            const activeRunIds = activeRuns.map(run => run.runId);
+            switch (policy) {
+                case 'skip':
+                    logger.warn(`Task '${taskId}' is already running (runs: ${activeRunIds.join(', ')}). Skipping this trigger (concurrency policy 'skip').`);
+                    return {
+                        success: false,
+                        code: 409,
+                        message: `Task '${taskId}' is already running. Trigger skipped.`,
+                        data: { code: 'TASK_ALREADY_RUNNING', concurrencyDecision: 'skipped', activeRunIds },
+                    };
+                case 'queue':
+                    // Several queued triggers wake up together; the first one to get a worker slot starts its run
+                    // and _enqueueIngestionTask sends the others back to waiting, without holding a slot.
+                    logger.info(`Task '${taskId}' is already running (runs: ${activeRunIds.join(', ')}). Releasing the worker slot until it finishes.`);
+                    return {
+                        success: false,
+                        code: 409,
+                        message: `Task '${taskId}' is still running.`,
+                        data: { code: 'TASK_STILL_RUNNING', concurrencyDecision: 'queued', activeRunIds },
+                    };
+                case 'replace':
+                    decision = 'replaced';
+                    logger.warn(`Task '${taskId}' is already running. Superseding runs ${activeRunIds.join(', ')} (concurrency policy 'replace').`);
+                    activeRuns.forEach(run => {
+                        run.superseded = true;
+                        run.controller.abort(new Error('Superseded by a newer run'));
+                    });
+                    // The superseded runs may still be using the cached instances until they settle
+                    this._invalidateOrchestrator(taskId);
+                    break;
+                case 'allow':
+                    decision = 'concurrent';
+                    logger.info(`Task '${taskId}' is already running. Starting a concurrent run (concurrency policy 'allow').`);
+                    break;
+                default:
+                    logger.warn(`Unknown concurrency policy '${policy}' for task '${taskId}'. Skipping this trigger.`);
+                    return { success: false, code: 400, message: `Unknown concurrency policy '${policy}'.`, data: { code: 'INVALID_CONCURRENCY_POLICY', concurrencyDecision: 'skipped' } };
+            }
+        }
 
+        const runRecord: IngestionRunRecord = {
+            runId: randomUUID(),
+            taskId,
+            triggerType,
+            attempt: 1,
+            status: IngestionTaskStatus.RUNNING,
+            startedAt: new Date(),
+            itemsFetched: 0,
+            itemsTransformed: 0,
+            itemsProcessed: 0,
+            stageDurationsMs: {},
+        };
+
+        // Register the run synchronously so that a trigger arriving right after this one sees it
+        const activeRun = { runId: runRecord.runId, superseded: false, controller: new AbortController() } as ActiveRun;
+        this.activeRuns.set(taskId, [...this._getActiveRuns(taskId), activeRun]);
+        // Runs that overlap with another one get their own source/destination instances
+        const dedicatedOrchestrator = decision === 'replaced' || decision === 'concurrent';
+        activeRun.promise = this._runTask(ctx, task, initialPayload, runRecord, activeRun, dedicatedOrchestrator);
+
+        const executionStatus = await activeRun.promise;
+        executionStatus.data = { ...executionStatus.data, runId: runRecord.runId, concurrencyDecision: decision };
+        return executionStatus;
+    }
 
-        console.log("START DEBUG -------- sourcePlugins from executetask-------------")
-        console.log(this.sourcePlugins)
-        console.log("END DEBUG -------- sourcePlugins from executetask-------------")
-       
+    // Executes a single registered run of the task and records its outcome.
+    private async _runTask(ctx: GSContext, task: IngestionTaskDefinition, initialPayload: any, runRecord: IngestionRunRecord, activeRun: ActiveRun, dedicatedOrchestrator: boolean): Promise<GSStatus> {
+        const taskId = task.id;
+        const maxAttempts = Math.max(1, task.retry?.maxAttempts ?? 1);
+        const signal = activeRun.controller.signal;
+        let executionStatus: GSStatus;
+        // Events and log lines of the run carry its runId and the current attempt
+        let run: RunContext = { runId: runRecord.runId, taskId, attempt: 1 };
+        let log = getRunLogger(run);
 
-        const sourceDef = this.sourcePlugins.get(task.source.pluginType);
+        task.currentStatus = IngestionTaskStatus.RUNNING;
+        task.lastRun = runRecord.startedAt;
+        await this._persistTask(task);
+        log.info(`Executing task '${task.name}' (ID: ${task.id}, run: ${runRecord.runId}).`);
+        emitIngestionEvent(this.eventBus, IngestionEvents.TASK_TRIGGERED, taskId, { triggerType: runRecord.triggerType }, run);
+
+        // The timeout covers the whole run, including retries and the delays between them
+        let timeoutTimer: NodeJS.Timeout | undefined;
+        if (task.timeoutMs && task.timeoutMs > 0) {
+            const timeoutMs = task.timeoutMs;
+            timeoutTimer = setTimeout(() => {
+                log.warn(`Run '${runRecord.runId}' of task '${taskId}' exceeded its timeout of ${timeoutMs}ms. Cancelling.`);
+                activeRun.controller.abort(new Error(`Timed out after ${timeoutMs}ms`));
+            }, timeoutMs);
+        }
+
+        try {
+            // Each attempt gets its own run record; all attempts of a run share the runId
+            for (let attempt = 1; ; attempt++) {
+                if (attempt > 1) {
+                    run = { ...run, attempt };
+                    log = getRunLogger(run);
+                }
+                const attemptRecord: IngestionRunRecord = { ...runRecord, attempt, startedAt: attempt === 1 ? runRecord.startedAt : new Date() };
+                executionStatus = await this._executeAttempt(ctx, task, initialPayload, dedicatedOrchestrator, signal, run, log);
+                await this._recordRun(attemptRecord, executionStatus);
+
+                // A cancelled run is never retried
+                if (executionStatus.success || signal.aborted || attempt >= maxAttempts || !this._isRetryable(task, executionStatus)) {
+                    break;
+                }
+                const delayMs = this._computeRetryDelay(task, attempt);
+                log.warn(`Task '${taskId}' attempt ${attempt}/${maxAttempts} failed: ${executionStatus.message}. Retrying in ${delayMs}ms.`);
+                emitIngestionEvent(this.eventBus, IngestionEvents.TASK_RETRYING, taskId, { nextAttempt: attempt + 1, maxAttempts, delayMs, status: executionStatus }, run);
+                await this._sleep(delayMs, signal);
+            }
+        } finally {
+            clearTimeout(timeoutTimer);
+            const remainingRuns = this._getActiveRuns(taskId).filter(run => run !== activeRun);
+            if (remainingRuns.length > 0) {
+                this.activeRuns.set(taskId, remainingRuns);
+            } else {
+                this.activeRuns.delete(taskId);
+            }
+        }
+
+        // updateTask replaces the task object and deleteTask removes it, possibly while this run was in progress.
+        // Run state goes to the current definition, and a deleted task is not written back to the store.
+        const currentTask = this.tasks.get(taskId);
+        // A superseded run still lands in the run history, but the run that replaced it owns the task state
+        if (activeRun.superseded) {
+            log.warn(`Run '${runRecord.runId}' of task '${taskId}' was superseded; not updating task status.`);
+        } else if (!currentTask) {
+            log.warn(`Task '${taskId}' was deleted while run '${runRecord.runId}' was in progress; not updating task status.`);
+        } else {
+            currentTask.lastRun = runRecord.startedAt;
+            currentTask.lastRunStatus = executionStatus;
+            if (this._getActiveRuns(taskId).length > 0) {
+                currentTask.currentStatus = IngestionTaskStatus.RUNNING;
+            } else if (executionStatus.success) {
+                currentTask.currentStatus = executionStatus.data?.partial ? IngestionTaskStatus.PARTIALLY_COMPLETED : IngestionTaskStatus.COMPLETED;
+            } else if (executionStatus.data?.cancelled) {
+                currentTask.currentStatus = IngestionTaskStatus.CANCELLED;
+            } else {
+                currentTask.currentStatus = IngestionTaskStatus.FAILED;
+            }
+            if (currentTask.trigger.type === 'cron') {
+                currentTask.nextRun = this._computeNextCronRun(currentTask, new Date());
+            }
+            await this._persistTask(currentTask);
+            // Dependency triggers, like the other triggers, only fire while the manager is started
+            if (this.lifecycleStarted) {
+                this._notifyDependents(ctx, taskId, executionStatus);
+            }
+            if (currentTask.trigger.type === 'oneshot' && executionStatus.success) {
+                log.info(`One-shot task '${taskId}' completed. Disabling it.`);
+                currentTask.nextRun = undefined;
+                await this.disableTask(taskId);
+            }
+        }
+
+        // The outcome is emitted once, after the run and task state are recorded, so listeners see the final state
+        if (executionStatus.success && executionStatus.data?.partial) {
+            // Not retried: the destinations that succeeded would receive the data twice
+            log.warn(`Task '${taskId}' partially completed: ${executionStatus.message}`);
+            emitIngestionEvent(this.eventBus, IngestionEvents.TASK_PARTIALLY_COMPLETED, taskId, executionStatus, run);
+        } else if (executionStatus.success) {
+            log.info(`Task '${taskId}' completed successfully.`);
+            emitIngestionEvent(this.eventBus, IngestionEvents.TASK_COMPLETED, taskId, executionStatus, run);
+        } else if (executionStatus.data?.cancelled) {
+            log.warn(`Task '${taskId}' run ${runRecord.runId} was cancelled: ${executionStatus.message}`);
+            emitIngestionEvent(this.eventBus, IngestionEvents.TASK_CANCELLED, taskId, executionStatus, run);
+        } else {
+            log.error(`Task '${taskId}' failed: ${executionStatus.message}`);
+            emitIngestionEvent(this.eventBus, IngestionEvents.TASK_FAILED, taskId, executionStatus, run);
+        }
+        log.info(`Task ${task.id} - "${task.name}" run ${runRecord.runId} finished with status: ${(currentTask || task).currentStatus}.`);
+        return executionStatus;
+    }
+
+    // Runs the orchestrator once. Never throws: unexpected errors are turned into a failed status.
+    private async _executeAttempt(ctx: GSContext, task: IngestionTaskDefinition, initialPayload: any, dedicatedOrchestrator: boolean, signal: AbortSignal, run: RunContext, log: IngestionLogger): Promise<GSStatus> {
+        if (signal.aborted) {
+            return this._cancelledStatus(task.id, signal);
+        }
+        try {
+            const orchestratorResult = await this._getOrchestrator(task, dedicatedOrchestrator);
+            if (!orchestratorResult.orchestrator) {
+                log.error(`Task '${task.id}' could not start: ${orchestratorResult.status.message}`);
+                return orchestratorResult.status;
+            }
+            const orchestrator = orchestratorResult.orchestrator;
+            const execution = runWithContext(run, () => orchestrator.executeTask(ctx, initialPayload, signal, { run }));
+            return await this._raceAbort(task.id, execution, signal, () => {
+                // Sources and destinations that ignore the signal keep working on these instances in the
+                // background; the next run must not share them
+                if (this.orchestrators.get(task.id) === orchestrator) {
+                    this._invalidateOrchestrator(task.id);
+                }
+            });
+        } catch (error: any) {
+            log.error(`Unhandled error during execution of task '${task.id}': ${error.message}`, { error: error });
+            return { success: false, message: `Unhandled error during task execution: ${error.message}` };
+        }
+    }
 
-        console.log("START DEBUG -------- sourceDef from executetask-------------")
-        console.log(sourceDef)
-        console.log("END DEBUG -------- sourceDef from executetask-------------")
+    // Renders the instance and schedules it, or updates the existing task with what changed
+    // taskId must already be qualified with the namespace
+    private async _applyTemplate(template: IngestionTaskTemplate, taskId: string, params: { [name: string]: any }, options: TemplateInstanceOptions): Promise<GSStatus> {
+        const resolved = resolveTemplateParams(template, params);
+        if (resolved.errors.length > 0) {
+            logger.warn(`Task '${taskId}' rejected: invalid parameters for template '${template.id}'. ${resolved.errors.join(' ')}`);
+            return { success: false, code: 400, message: `Invalid parameters for template '${template.id}'.`, data: { errors: resolved.errors } };
+        }
+        const definition = renderTemplate(template, taskId, resolved.params, params);
+        if (options.enabled !== undefined) {
+            definition.enabled = options.enabled;
+        }
+        if (options.namespace !== undefined) {
+            definition.namespace = options.namespace;
+        }
+        if (options.sourceFile !== undefined) {
+            definition.sourceFile = options.sourceFile;
+        }
+        const existing = this.tasks.get(taskId);
+        if (!existing) {
+            return this.scheduleTask(definition);
+        }
+        const updates = diffTaskDefinition(existing, definition);
+        if (Object.keys(updates).length === 0) {
+            logger.debug(`Task '${taskId}' is unchanged by template '${template.id}'.`);
+            return { success: true, message: `Task '${taskId}' is unchanged.` };
+        }
+        return this.updateTask(taskId, updates);
+    }
 
-        let destinationDef: (new (...args: any[]) => IDestinationPlugin) | undefined;
-        if (task.destination) {
-            destinationDef = this.destinationPlugins.get(task.destination.pluginType);
+    private _stoppingStatus(taskId: string, triggerType: TriggerType): GSStatus {
+        logger.warn(`Manager is stopping. Dropping ${triggerType} trigger for task '${taskId}'.`);
+        return { success: false, code: 503, message: `Ingestion manager is stopping. Task '${taskId}' was not run.`, data: { code: 'MANAGER_STOPPING' } };
+    }
+
+    // Waits for every active run to settle. At the deadline the remaining runs are aborted, which
+    // settles them promptly (see _raceAbort) with their final state recorded as CANCELLED.
+    private async _drainActiveRuns(drainTimeoutMs: number): Promise<void> {
+        const allRuns = () => Array.from(this.activeRuns.values()).reduce((runs, taskRuns) => runs.concat(taskRuns), [] as ActiveRun[]);
+        if (allRuns().length === 0) {
+            return;
+        }
+        logger.info(`Waiting up to ${drainTimeoutMs}ms for ${allRuns().length} active runs to finish.`);
+        // No new runs are registered while stopping, so waiting on the current ones is enough
+        let deadlineTimer: NodeJS.Timeout | undefined;
+        const deadline = new Promise<void>(resolve => {
+            deadlineTimer = setTimeout(resolve, drainTimeoutMs);
+        });
+        await Promise.race([Promise.allSettled(allRuns().map(run => run.promise)), deadline]);
+        clearTimeout(deadlineTimer);
+
+        const remainingRuns = allRuns();
+        if (remainingRuns.length > 0) {
+            logger.warn(`Drain timeout of ${drainTimeoutMs}ms reached. Cancelling ${remainingRuns.length} runs: ${remainingRuns.map(run => run.runId).join(', ')}.`);
+            remainingRuns.forEach(run => run.controller.abort(new Error(`Manager stopped: drain timeout of ${drainTimeoutMs}ms reached`)));
+            await Promise.allSettled(remainingRuns.map(run => run.promise));
+        }
+        logger.info('All active runs have finished.');
+    }
+
+    // Runs the source and transformer chain on a fresh orchestrator whose events go nowhere, so that
+    // nothing outside the preview observes the run. Still takes a worker slot (without queue events)
+    // and honours the task's timeoutMs.
+    private async _dryRunTask(ctx: GSContext, task: IngestionTaskDefinition, initialPayload: any, options: ManualTriggerOptions): Promise<GSStatus> {
+        const sampleSize = options.sampleSize ?? DEFAULT_DRY_RUN_SAMPLE_SIZE;
+        const maxContentLength = options.maxContentLength ?? DEFAULT_DRY_RUN_CONTENT_LENGTH;
+        if (!Number.isInteger(sampleSize) || sampleSize < 0 || !Number.isInteger(maxContentLength) || maxContentLength < 0) {
+            return { success: false, code: 400, message: "'sampleSize' and 'maxContentLength' must be non-negative integers." };
         }
+        if (this.stopping) {
+            return this._stoppingStatus(task.id, 'manual');
+        }
+        logger.info(`Dry run of task '${task.id}' requested. Destinations will not be called.`);
+
+        return this.workerPool.submit(task.id, task.priority ?? 0, async () => {
+            const controller = new AbortController();
+            const timeoutTimer = task.timeoutMs && task.timeoutMs > 0
+                ? setTimeout(() => controller.abort(new Error(`Timed out after ${task.timeoutMs}ms`)), task.timeoutMs)
+                : undefined;
+            try {
+                const orchestratorResult = await this._getOrchestrator(task, true, true);
+                if (!orchestratorResult.orchestrator) {
+                    return orchestratorResult.status;
+                }
+                const run: RunContext = { runId: randomUUID(), taskId: task.id, attempt: 1 };
+                const orchestrator = orchestratorResult.orchestrator;
+                const execution = runWithContext(run, () => orchestrator.executeTask(ctx, initialPayload, controller.signal, { dryRun: true, run }));
+                const status = await this._raceAbort(task.id, execution, controller.signal);
+                if (!status.success) {
+                    logger.warn(`Dry run of task '${task.id}' failed: ${status.message}`);
+                    return status;
+                }
 
+                const { transformedData, ...metrics } = status.data;
+                const items: IngestionData[] = transformedData || [];
+                const isRemoval = (item: IngestionData) => item.metadata?.changeType === 'removed';
+                const preview: DryRunPreview = {
+                    ...metrics,
+                    dryRun: true,
+                    destinations: resolveTaskDestinations(task).map(destination => destination.name),
+                    idsToWrite: items.filter(item => !isRemoval(item)).map(item => item.id),
+                    idsToDelete: items.filter(isRemoval).map(item => item.id),
+                    sample: items.slice(0, sampleSize).map(item => toDryRunSample(item, maxContentLength)),
+                };
+                logger.info(`Dry run of task '${task.id}' finished: ${preview.idsToWrite.length} items would be written and ${preview.idsToDelete.length} deleted.`);
+                return { success: true, code: 200, message: `Dry run of task '${task.id}' completed. No destination was called.`, data: preview };
+            } catch (error: any) {
+                logger.error(`Unhandled error during dry run of task '${task.id}': ${error.message}`, { error });
+                return { success: false, message: `Unhandled error during dry run: ${error.message}` };
+            } finally {
+                clearTimeout(timeoutTimer);
+            }
+        }, { namespace: getTaskNamespace(task), silent: true });
+    }
+
+    // Resolves with a cancelled status as soon as the signal aborts, even if the source or destination
+    // ignores the signal. The abandoned execution keeps running in the background until it settles;
+    // onAbandon is called when that happens.
+    private _raceAbort(taskId: string, execution: Promise<GSStatus>, signal: AbortSignal, onAbandon?: () => void): Promise<GSStatus> {
+        return new Promise<GSStatus>((resolve, reject) => {
+            const onAbort = () => {
+                onAbandon?.();
+                resolve(this._cancelledStatus(taskId, signal));
+            };
+            if (signal.aborted) {
+                // Aborted while the orchestrator was being prepared
+                onAbort();
+            } else {
+                signal.addEventListener('abort', onAbort, { once: true });
+            }
+            execution
+                .then(resolve, reject)
+                .finally(() => signal.removeEventListener('abort', onAbort));
+        });
+    }
+
+    private _cancelledStatus(taskId: string, signal: AbortSignal): GSStatus {
+        const reason = getAbortReason(signal);
+        return { success: false, code: CANCELLED_STATUS_CODE, message: `Run of task '${taskId}' was cancelled: ${reason}`, data: { cancelled: true, reason } };
+    }
+
+    // Waits for the given delay, returning early when the signal aborts
+    private _sleep(delayMs: number, signal: AbortSignal): Promise<void> {
+        return new Promise<void>(resolve => {
+            const done = () => {
+                clearTimeout(timer);
+                signal.removeEventListener('abort', done);
+                resolve();
+            };
+            const timer = setTimeout(done, delayMs);
+            signal.addEventListener('abort', done, { once: true });
+        });
+    }
+
+    // A failed attempt is retried when its status code is listed in the policy. Without an explicit list,
+    // server errors, timeouts, rate limiting and unhandled errors (no code) are considered transient.
+    private _isRetryable(task: IngestionTaskDefinition, status: GSStatus): boolean {
+        const retryableStatusCodes = task.retry?.retryableStatusCodes;
+        if (retryableStatusCodes) {
+            return status.code !== undefined && retryableStatusCodes.includes(status.code);
+        }
+        return status.code === undefined || status.code >= 500 || status.code === 408 || status.code === 429;
+    }
+
+    private _computeRetryDelay(task: IngestionTaskDefinition, attempt: number): number {
+        const policy = task.retry as RetryPolicy;
+        const initialDelayMs = policy.initialDelayMs ?? DEFAULT_RETRY_INITIAL_DELAY_MS;
+        const maxDelayMs = policy.maxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS;
+        let delayMs: number;
+        switch (policy.backoff || 'exponential') {
+            case 'fixed':
+                delayMs = initialDelayMs;
+                break;
+            case 'linear':
+                delayMs = initialDelayMs * attempt;
+                break;
+            case 'exponential':
+            default:
+                delayMs = initialDelayMs * Math.pow(2, attempt - 1);
+                break;
+        }
+        return Math.min(delayMs, maxDelayMs);
+    }
+
+    // Returns the cached orchestrator for the task, building it (and its plugin instances) on first use.
+    // A dedicated orchestrator is never cached, so overlapping runs do not share source state.
+    // A dry-run orchestrator is always dedicated, has no destinations and a detached event bus.
+    private async _getOrchestrator(task: IngestionTaskDefinition, dedicated: boolean, dryRun: boolean = false): Promise<{ orchestrator?: IngestionOrchestrator, status: GSStatus }> {
+        const taskId = task.id;
+        const cached = this.orchestrators.get(taskId);
+        if (cached && !dedicated && !dryRun) {
+            return { orchestrator: cached, status: { success: true } };
+        }
+
+        const sourceDef = this.sourcePlugins.get(task.source.pluginType);
         if (!sourceDef) {
-            logger.error(`Source plugin1 '${task.source.pluginType}' not registered for task '${taskId}'.`);
-            const status: GSStatus = { success: false, message: `Source plugin '${task.source.pluginType}' not registered.` };
-            task.currentStatus = IngestionTaskStatus.FAILED;
-            task.lastRunStatus = status;
-            this.eventBus.emit(IngestionEvents.TASK_FAILED, taskId, status);
-            return status;
-        }
-        if (task.destination && !destinationDef) {
-            logger.error(`Destination plugin '${task.destination.pluginType}' not registered for task '${taskId}'.`);
-            const status: GSStatus = { success: false, message: `Destination plugin '${task.destination.pluginType}' not registered.` };
-            task.currentStatus = IngestionTaskStatus.FAILED;
-            task.lastRunStatus = status;
-            this.eventBus.emit(IngestionEvents.TASK_FAILED, taskId, status);
-            return status;
-        }
-
-        let orchestrator = this.orchestrators.get(taskId);
-        if (!orchestrator) {
-             // NEW DEBUGGING: Log the entire task.source object and its config property
-        // logger.info(`[GlobalIngestionLifecycleManager] Debugging task.source for task '${taskId}':`, task.source);
-        // logger.info(`[GlobalIngestionLifecycleManager] Debugging task.source.config for task '${taskId}':`, task.source.config);
-        // logger.info(`[GlobalIngestionLifecycleManager] Debugging task.source.config.startUrl for task '${taskId}':`, (task.source.config as any)?.startUrl);
-        // logger.info(`[GlobalIngestionLifecycleManager] Debugging task.source.config.axiosServiceInstanceName for task '${taskId}':`, (task.source.config as any)?.axiosServiceInstanceName);
-
-
-            const sourcePluginInstance = new sourceDef.plugin({ config: task.source.config });
-
-            let destinationPluginInstance: IDestinationPlugin | undefined;
-            if (task.destination && destinationDef) {
-                destinationPluginInstance = new destinationDef();
-                await destinationPluginInstance.init(task.destination.config);
-            }
-
-            orchestrator = new IngestionOrchestrator(
-                sourcePluginInstance,
-                sourceDef.transformer,
-                destinationPluginInstance,
-                this.eventBus,
-                taskId
-            );
+            return { status: { success: false, code: 400, message: `Source plugin '${task.source.pluginType}' not registered.` } };
+        }
+        // Checked again here, as the namespace config may have changed since the task was scheduled
+        const namespace = getTaskNamespace(task);
+        const namespaceConfig = this.namespaces.get(namespace);
+        if (namespaceConfig?.allowedSourceTypes && !namespaceConfig.allowedSourceTypes.includes(task.source.pluginType)) {
+            return { status: { success: false, code: 403, message: `Source plugin '${task.source.pluginType}' is not allowed in namespace '${namespace}'.` } };
+        }
+        const destinationDefinitions = resolveTaskDestinations(task);
+        for (const destination of destinationDefinitions) {
+            if (!this.destinationPlugins.has(destination.pluginType)) {
+                return { status: { success: false, code: 400, message: `Destination plugin '${destination.pluginType}' not registered.` } };
+            }
+        }
+
+        // A task without a transformers chain uses the transformer registered with its source plugin
+        const transformerChain: TransformerChainStep[] = [];
+        if (task.transformers && task.transformers.length > 0) {
+            for (const step of task.transformers) {
+                const transformer = this.transformers.get(step.name);
+                if (!transformer) {
+                    return { status: { success: false, code: 400, message: `Transformer '${step.name}' not registered.` } };
+                }
+                transformerChain.push({ name: step.name, transformer, params: step.params });
+            }
+        } else {
+            transformerChain.push({ name: `${task.source.pluginType} (source default)`, transformer: sourceDef.transformer, params: task.transformerParams });
+        }
+
+        const sourcePluginInstance = new sourceDef.plugin({ config: mergeDefaultConfig(sourceDef.defaultConfig, task.source.config) });
+
+        const destinations: OrchestratorDestination[] = [];
+        for (const destination of dryRun ? [] : destinationDefinitions) {
+            const destinationConfig = applyOutputRoot(destination.config, namespaceConfig?.outputRoot, `destination '${destination.name}'`);
+            if (destinationConfig.errors.length > 0) {
+                return { status: { success: false, code: 403, message: destinationConfig.errors.join(' ') } };
+            }
+            const destinationPluginInstance: IDestinationPlugin = new (this.destinationPlugins.get(destination.pluginType)!.plugin)();
+            await destinationPluginInstance.init(destinationConfig.config);
+            destinations.push({ name: destination.name, pluginType: destination.pluginType, plugin: destinationPluginInstance });
+        }
+
+        const orchestrator = new IngestionOrchestrator(
+            sourcePluginInstance,
+            transformerChain,
+            destinations,
+            dryRun ? new IngestionEventBus() : this.eventBus,
+            taskId
+        );
+        // An attempt that started before an updateTask still runs on the old definition; its orchestrator is not kept
+        if (!dedicated && !dryRun && this.tasks.get(taskId) === task) {
             this.orchestrators.set(taskId, orchestrator);
         }
+        return { orchestrator, status: { success: true } };
+    }
 
-        task.currentStatus = IngestionTaskStatus.RUNNING;
-        task.lastRun = new Date();
-        logger.info(`Executing task '${task.name}' (ID: ${task.id}).`);
-        this.eventBus.emit(IngestionEvents.TASK_TRIGGERED, taskId);
+    private _invalidateOrchestrator(taskId: string): void {
+        if (this.orchestrators.delete(taskId)) {
+            logger.info(`Cached orchestrator of task '${taskId}' discarded. It is rebuilt on the next run.`);
+        }
+    }
 
-        let executionStatus: GSStatus;
+    private _getActiveRuns(taskId: string): ActiveRun[] {
+        return this.activeRuns.get(taskId) || [];
+    }
 
+    // Completes a run record from the final execution status and appends it to the run history.
+    private async _recordRun(runRecord: IngestionRunRecord, executionStatus: GSStatus): Promise<void> {
+        const data = executionStatus.data || {};
+        runRecord.finishedAt = new Date();
+        if (executionStatus.success) {
+            runRecord.status = data.partial ? IngestionTaskStatus.PARTIALLY_COMPLETED : IngestionTaskStatus.COMPLETED;
+        } else {
+            runRecord.status = data.cancelled ? IngestionTaskStatus.CANCELLED : IngestionTaskStatus.FAILED;
+        }
+        runRecord.itemsFetched = data.itemsFetched ?? runRecord.itemsFetched;
+        runRecord.itemsTransformed = data.itemsTransformed ?? runRecord.itemsTransformed;
+        runRecord.itemsProcessed = data.itemsProcessed ?? runRecord.itemsProcessed;
+        runRecord.stageDurationsMs = data.stageDurationsMs ?? runRecord.stageDurationsMs;
+        if (data.destinationResults) {
+            runRecord.destinationResults = data.destinationResults.map(({ data: _details, ...result }: any) => result);
+        }
+        if (!executionStatus.success) {
+            runRecord.error = { message: executionStatus.message || 'Unknown error', code: executionStatus.code, data: data.data };
+        }
         try {
-            
-
-            executionStatus = await orchestrator.executeTask(ctx, initialPayload); // Pass minimalContext first
-            task.lastRunStatus = executionStatus;
-            if (executionStatus.success) {
-                logger.info(`Task '${taskId}' completed successfully.`);
-                task.currentStatus = IngestionTaskStatus.COMPLETED;
-                this.eventBus.emit(IngestionEvents.TASK_COMPLETED, taskId, executionStatus);
-            } else {
-                logger.error(`Task '${taskId}' failed: ${executionStatus.message}`);
-                task.currentStatus = IngestionTaskStatus.FAILED;
-                this.eventBus.emit(IngestionEvents.TASK_FAILED, taskId, executionStatus);
-            }
+            await this.taskStore.appendRunRecord(runRecord);
         } catch (error: any) {
-            logger.error(`Unhandled error during execution of task '${taskId}': ${error.message}`, { error: error });
-            executionStatus = { success: false, message: `Unhandled error during task execution: ${error.message}` };
-            task.currentStatus = IngestionTaskStatus.FAILED;
-            task.lastRunStatus = executionStatus;
-            this.eventBus.emit(IngestionEvents.TASK_FAILED, taskId, executionStatus);
-        } finally {
-            if (task.currentStatus !== IngestionTaskStatus.FAILED && task.currentStatus !== IngestionTaskStatus.COMPLETED) {
-                task.currentStatus = task.enabled ? IngestionTaskStatus.SCHEDULED : IngestionTaskStatus.DISABLED;
-            }
+            logger.error(`Failed to record run '${runRecord.runId}' for task '${runRecord.taskId}': ${error.message}`, { error });
+        }
+    }
+
+    // Writes the task through to the task store. Persistence failures are logged but never
+    // fail the calling operation, so a broken store cannot stop ingestion.
+    private async _persistTask(task: IngestionTaskDefinition): Promise<void> {
+        try {
+            await this.taskStore.saveTask(task);
+        } catch (error: any) {
+            logger.error(`Failed to persist task '${task.id}' to task store: ${error.message}`, { error });
         }
-        logger.info(`Task ${task.id} - "${task.name}" execution finished with status: ${task.currentStatus}.`);
-        return executionStatus;
     }
 
     private _setupTrigger(task: IngestionTaskDefinition): void {
@@ -436,8 +1376,31 @@ export class GlobalIngestionLifecycleManager implements IGlobalIngestionLifecycl
         switch (task.trigger.type) {
             case 'cron':
                 const cronTrigger = task.trigger as CronTrigger;
-                // Combined into a single template literal for robustness
-                logger.info(`Task '${task.id}' is configured for Godspeed Cron trigger "${cronTrigger.expression}". Ensure a Godspeed cron event is set up to call triggerAllEnabledCronTasks().`);
+                task.nextRun = this._computeNextCronRun(task, new Date());
+                void this._persistTask(task);
+                if (this.internalScheduler) {
+                    logger.info(`Task '${task.id}' is scheduled internally for cron "${cronTrigger.expression}". Next run: ${task.nextRun?.toISOString() || 'unknown'}.`);
+                    this._armCronTimer(task.id);
+                } else {
+                    // Combined into a single template literal for robustness
+                    logger.info(`Task '${task.id}' is configured for Godspeed Cron trigger "${cronTrigger.expression}". Ensure a Godspeed cron event is set up to call triggerAllEnabledCronTasks().`);
+                }
+                break;
+
+            case 'interval':
+                const intervalTrigger = task.trigger as IntervalTrigger;
+                logger.info(`Task '${task.id}' is scheduled internally every ${intervalTrigger.everyMs}ms.`);
+                this._armIntervalTimer(task.id);
+                void this._persistTask(task);
+                break;
+
+            case 'oneshot':
+                this._armOneShotTimer(task.id);
+                void this._persistTask(task);
+                break;
+
+            case 'filewatch':
+                void this._startFileWatcher(task);
                 break;
 
             case 'webhook':
@@ -449,6 +1412,11 @@ export class GlobalIngestionLifecycleManager implements IGlobalIngestionLifecycl
                 logger.info(`Task '${task.id}' is configured for manual trigger.`);
                 break;
 
+            case 'dependency':
+                const dependencyTrigger = task.trigger as DependencyTrigger;
+                logger.info(`Task '${task.id}' runs after [${dependencyTrigger.dependsOn.join(', ')}] finish (on: ${dependencyTrigger.on || 'success'}).`);
+                break;
+
             default:
                 logger.warn(`Unknown trigger type for task '${task.id}'. No trigger set up.`);
                 break;
@@ -458,7 +1426,25 @@ export class GlobalIngestionLifecycleManager implements IGlobalIngestionLifecycl
     private _clearTrigger(task: IngestionTaskDefinition): void {
         switch (task.trigger.type) {
             case 'cron':
-                logger.debug(`No internal cron timer to clear for task '${task.id}' (managed externally).`);
+                if (this._clearTriggerTimer(task.id)) {
+                    logger.debug(`Cleared internal cron timer for task '${task.id}'.`);
+                } else {
+                    logger.debug(`No internal cron timer to clear for task '${task.id}' (managed externally).`);
+                }
+                break;
+            case 'interval':
+            case 'oneshot':
+                if (this._clearTriggerTimer(task.id)) {
+                    logger.debug(`Cleared ${task.trigger.type} timer for task '${task.id}'.`);
+                }
+                break;
+            case 'filewatch':
+                const watcher = this.fileWatchers.get(task.id);
+                if (watcher) {
+                    watcher.close();
+                    this.fileWatchers.delete(task.id);
+                    logger.debug(`Closed file watcher for task '${task.id}'.`);
+                }
                 break;
             case 'webhook':
                 logger.debug(`Webhook for task '${task.id}' has no internal timer to clear.`);
@@ -466,8 +1452,442 @@ export class GlobalIngestionLifecycleManager implements IGlobalIngestionLifecycl
             case 'manual':
                 logger.debug(`Manual task '${task.id}' has no internal timer to clear.`);
                 break;
+            case 'dependency':
+                // Upstream outcomes collected so far are kept; they are dropped only when the trigger
+                // itself changes or the task is disabled or deleted
+                logger.debug(`Dependency-triggered task '${task.id}' has no internal timer to clear.`);
+                break;
             default:
                 break;
         }
     }
+
+    // Arms a timer for the task's next cron occurrence. When it fires, the run is queued and the
+    // timer is armed again for the following occurrence.
+    private _armCronTimer(taskId: string, after?: Date): void {
+        this._clearTriggerTimer(taskId);
+        const task = this.tasks.get(taskId);
+        if (!task || !task.enabled || task.trigger.type !== 'cron' || !this.lifecycleStarted) {
+            return;
+        }
+        // Never compute from before 'after', so a timer that fires a little early cannot re-arm for the same occurrence
+        const now = new Date();
+        const nextRun = this._computeNextCronRun(task, after && after > now ? after : now);
+        if (!nextRun) {
+            return;
+        }
+        this._armTriggerTimer(taskId, nextRun, () => {
+            const currentTask = this.tasks.get(taskId);
+            if (!currentTask || !currentTask.enabled || currentTask.trigger.type !== 'cron') {
+                return;
+            }
+            logger.info(`Internal scheduler checking cron task '${taskId}' (scheduled: ${nextRun.toISOString()}).`);
+            // Checked from just after the occurrence, since a cron schedule's previous time excludes the current
+            // instant; a timer that fires a little early still counts as the occurrence it was armed for
+            const now = new Date(Math.max(Date.now(), nextRun.getTime() + 1));
+            try {
+                this._runDueCronTask(this._createInternalContext(), currentTask, now)?.catch((error: any) => {
+                    logger.error(`Internally scheduled run of task '${taskId}' failed: ${error.message}`, { error });
+                });
+            } catch (error: any) {
+                logger.error(`Internal scheduler could not check cron task '${taskId}': ${error.message}`, { error });
+            }
+            this._armCronTimer(taskId, nextRun);
+        });
+    }
+
+    // Arms a timer for the next interval occurrence after 'after' (default: now) and re-arms it after each run
+    private _armIntervalTimer(taskId: string, after?: Date): void {
+        this._clearTriggerTimer(taskId);
+        const task = this.tasks.get(taskId);
+        if (!task || !task.enabled || task.trigger.type !== 'interval' || !this.lifecycleStarted) {
+            return;
+        }
+        const intervalTrigger = task.trigger as IntervalTrigger;
+        const nextRun = this._computeNextIntervalRun(intervalTrigger, after || new Date());
+        const endAt = intervalTrigger.endAt ? new Date(intervalTrigger.endAt) : undefined;
+        if (endAt && nextRun > endAt) {
+            logger.info(`Interval task '${taskId}' reached its endAt (${endAt.toISOString()}). No further runs scheduled.`);
+            task.nextRun = undefined;
+            return;
+        }
+        task.nextRun = nextRun;
+        this._armTriggerTimer(taskId, nextRun, () => {
+            const currentTask = this.tasks.get(taskId);
+            if (!currentTask || !currentTask.enabled || currentTask.trigger.type !== 'interval') {
+                return;
+            }
+            // Like cron, a trigger that is still waiting to run is not queued a second time
+            if (this._hasPendingTrigger(taskId)) {
+                logger.warn(`Interval task '${taskId}' still has a run waiting in the queue. Skipping occurrence ${nextRun.toISOString()}.`);
+            } else {
+                logger.info(`Internal scheduler firing interval task '${taskId}' (scheduled: ${nextRun.toISOString()}).`);
+                this._fireTimedTrigger(currentTask, { scheduledTime: nextRun.toISOString() }, 'interval');
+            }
+            this._armIntervalTimer(taskId, nextRun);
+        });
+    }
+
+    private _armOneShotTimer(taskId: string): void {
+        this._clearTriggerTimer(taskId);
+        const task = this.tasks.get(taskId);
+        if (!task || !task.enabled || task.trigger.type !== 'oneshot' || !this.lifecycleStarted) {
+            return;
+        }
+        const runAt = new Date((task.trigger as OneShotTrigger).runAt);
+        if (runAt.getTime() <= Date.now() && task.lastRun) {
+            // It ran but did not succeed (otherwise it would be disabled); only a manual trigger runs it again
+            logger.warn(`One-shot task '${taskId}' already ran at ${task.lastRun.toISOString()} without succeeding. Not rescheduling it.`);
+            task.nextRun = undefined;
+            return;
+        }
+        task.nextRun = runAt;
+        logger.info(`One-shot task '${taskId}' scheduled to run at ${runAt.toISOString()}.`);
+        this._armTriggerTimer(taskId, runAt, () => {
+            const currentTask = this.tasks.get(taskId);
+            if (!currentTask || !currentTask.enabled || currentTask.trigger.type !== 'oneshot') {
+                return;
+            }
+            logger.info(`Internal scheduler firing one-shot task '${taskId}' (scheduled: ${runAt.toISOString()}).`);
+            currentTask.nextRun = undefined;
+            this._fireTimedTrigger(currentTask, { scheduledTime: runAt.toISOString() }, 'oneshot');
+        });
+    }
+
+    // Sets the task's trigger timer to call onFire at fireAt. Delays longer than setTimeout supports
+    // are bridged with intermediate wake-ups.
+    private _armTriggerTimer(taskId: string, fireAt: Date, onFire: () => void): void {
+        const delayMs = Math.max(0, fireAt.getTime() - Date.now());
+        const timer = setTimeout(() => {
+            this.triggerTimers.delete(taskId);
+            if (delayMs > MAX_TIMER_DELAY_MS) {
+                // Only an intermediate wake-up on the way to a distant occurrence
+                this._armTriggerTimer(taskId, fireAt, onFire);
+                return;
+            }
+            onFire();
+        }, Math.min(delayMs, MAX_TIMER_DELAY_MS));
+        // Timers alone should not keep the process alive
+        timer.unref?.();
+        this.triggerTimers.set(taskId, timer);
+    }
+
+    private async _startFileWatcher(task: IngestionTaskDefinition): Promise<void> {
+        const fileWatchTrigger = task.trigger as FileWatchTrigger;
+        const watcher = new FileWatcher(fileWatchTrigger, changes => {
+            const currentTask = this.tasks.get(task.id);
+            if (!currentTask || !currentTask.enabled || this.fileWatchers.get(task.id) !== watcher) {
+                return;
+            }
+            this._enqueueIngestionTask(this._createInternalContext(), currentTask, { fileWatch: changes }, 'filewatch').catch((error: any) => {
+                logger.error(`File watch run of task '${task.id}' failed: ${error.message}`, { error });
+            });
+        });
+        this.fileWatchers.set(task.id, watcher);
+        try {
+            await watcher.start();
+            logger.info(`Task '${task.id}' is watching '${fileWatchTrigger.path}' for file changes.`);
+        } catch (error: any) {
+            logger.error(`Could not watch '${fileWatchTrigger.path}' for task '${task.id}': ${error.message}`, { error });
+            watcher.close();
+            if (this.fileWatchers.get(task.id) === watcher) {
+                this.fileWatchers.delete(task.id);
+            }
+            return;
+        }
+        // The trigger may have been cleared while the initial scan was running
+        if (this.fileWatchers.get(task.id) !== watcher) {
+            watcher.close();
+        }
+    }
+
+    // True while a trigger of the task waits in the worker pool queue or for the task's active run
+    private _hasPendingTrigger(taskId: string): boolean {
+        return this.workerPool.isQueued(taskId) || this.waitingTriggers.has(taskId);
+    }
+
+    private _fireTimedTrigger(task: IngestionTaskDefinition, initialPayload: any, triggerType: TriggerType): void {
+        this._enqueueIngestionTask(this._createInternalContext(), task, initialPayload, triggerType).catch((error: any) => {
+            logger.error(`Internally scheduled run of task '${task.id}' failed: ${error.message}`, { error });
+        });
+    }
+
+    // Returns true if a timer was armed for the task
+    private _clearTriggerTimer(taskId: string): boolean {
+        const timer = this.triggerTimers.get(taskId);
+        if (!timer) {
+            return false;
+        }
+        clearTimeout(timer);
+        this.triggerTimers.delete(taskId);
+        return true;
+    }
+
+    // All due-time and nextRun computations go through here so the trigger's timezone is always applied
+    private _parseCron(cronTrigger: CronTrigger, currentDate: Date) {
+        return CronExpressionParser.parse(cronTrigger.expression, { currentDate, tz: cronTrigger.timezone });
+    }
+
+    // Returns a list of problems with the trigger definition (empty when it is valid)
+    private _validateTrigger(trigger: IngestionTrigger | undefined, namespace?: string): string[] {
+        if (!trigger || !trigger.type) {
+            return ["'trigger.type' is required."];
+        }
+        const errors: string[] = [];
+        if (trigger.type === 'dependency') {
+            const dependencyTrigger = trigger as DependencyTrigger;
+            if (!Array.isArray(dependencyTrigger.dependsOn) || dependencyTrigger.dependsOn.length === 0) {
+                errors.push("'trigger.dependsOn' must list at least one upstream task id.");
+            } else {
+                // Dependencies stay within the namespace
+                dependencyTrigger.dependsOn.forEach(id => errors.push(...validateTaskId(namespace, id).map(error => `'trigger.dependsOn': ${error}`)));
+            }
+            if (dependencyTrigger.on !== undefined && !['success', 'failure', 'always'].includes(dependencyTrigger.on)) {
+                errors.push(`'trigger.on' must be 'success', 'failure' or 'always', got '${dependencyTrigger.on}'.`);
+            }
+        }
+        if (trigger.type === 'interval') {
+            const intervalTrigger = trigger as IntervalTrigger;
+            if (typeof intervalTrigger.everyMs !== 'number' || !isFinite(intervalTrigger.everyMs) || intervalTrigger.everyMs <= 0) {
+                errors.push(`'trigger.everyMs' must be a positive number of milliseconds, got '${intervalTrigger.everyMs}'.`);
+            }
+            if (intervalTrigger.startAt !== undefined && !isValidDate(intervalTrigger.startAt)) {
+                errors.push(`'trigger.startAt' is not a valid date: '${intervalTrigger.startAt}'.`);
+            }
+            if (intervalTrigger.endAt !== undefined && !isValidDate(intervalTrigger.endAt)) {
+                errors.push(`'trigger.endAt' is not a valid date: '${intervalTrigger.endAt}'.`);
+            }
+            if (isValidDate(intervalTrigger.startAt) && isValidDate(intervalTrigger.endAt)
+                && new Date(intervalTrigger.endAt as Date | string) <= new Date(intervalTrigger.startAt as Date | string)) {
+                errors.push("'trigger.endAt' must be after 'trigger.startAt'.");
+            }
+        }
+        if (trigger.type === 'filewatch') {
+            const fileWatchTrigger = trigger as FileWatchTrigger;
+            if (!fileWatchTrigger.path || typeof fileWatchTrigger.path !== 'string') {
+                errors.push("'trigger.path' must be the directory to watch.");
+            }
+            if (fileWatchTrigger.debounceMs !== undefined && (typeof fileWatchTrigger.debounceMs !== 'number' || fileWatchTrigger.debounceMs < 0)) {
+                errors.push(`'trigger.debounceMs' must be a non-negative number, got '${fileWatchTrigger.debounceMs}'.`);
+            }
+        }
+        if (trigger.type === 'oneshot') {
+            const oneShotTrigger = trigger as OneShotTrigger;
+            if (!isValidDate(oneShotTrigger.runAt)) {
+                errors.push(`'trigger.runAt' must be a valid date, got '${oneShotTrigger.runAt}'.`);
+            }
+        }
+        if (trigger.type === 'cron') {
+            const cronTrigger = trigger as CronTrigger;
+            if (cronTrigger.timezone !== undefined && !isValidTimeZone(cronTrigger.timezone)) {
+                errors.push(`Unknown timezone '${cronTrigger.timezone}' (expected an IANA name such as 'Asia/Kolkata').`);
+            }
+            try {
+                CronExpressionParser.parse(cronTrigger.expression);
+            } catch (error: any) {
+                errors.push(`Invalid cron expression '${cronTrigger.expression}': ${error.message}`);
+            }
+            if (cronTrigger.catchUp !== undefined && !['none', 'latest', 'all'].includes(cronTrigger.catchUp)) {
+                errors.push(`'trigger.catchUp' must be 'none', 'latest' or 'all', got '${cronTrigger.catchUp}'.`);
+            }
+            if (cronTrigger.maxCatchUpRuns !== undefined && (!Number.isInteger(cronTrigger.maxCatchUpRuns) || cronTrigger.maxCatchUpRuns < 1)) {
+                errors.push(`'trigger.maxCatchUpRuns' must be a positive integer, got '${cronTrigger.maxCatchUpRuns}'.`);
+            }
+        }
+        return errors;
+    }
+
+    // Returns a list of problems with the settings that control how the task's runs are executed
+    private _validateRunSettings(task: Partial<IngestionTaskDefinition>): string[] {
+        const errors: string[] = [];
+        if (task.concurrencyPolicy !== undefined && !CONCURRENCY_POLICIES.includes(task.concurrencyPolicy)) {
+            errors.push(`'concurrencyPolicy' must be one of ${CONCURRENCY_POLICIES.map(policy => `'${policy}'`).join(', ')}, got '${task.concurrencyPolicy}'.`);
+        }
+        if (task.retry !== undefined) {
+            const retry = task.retry;
+            if (!retry || typeof retry !== 'object') {
+                errors.push("'retry' must be an object with at least 'maxAttempts'.");
+            } else {
+                if (!Number.isInteger(retry.maxAttempts) || retry.maxAttempts < 1) {
+                    errors.push(`'retry.maxAttempts' must be a positive integer, got '${retry.maxAttempts}'.`);
+                }
+                if (retry.backoff !== undefined && !BACKOFF_TYPES.includes(retry.backoff)) {
+                    errors.push(`'retry.backoff' must be one of ${BACKOFF_TYPES.map(backoff => `'${backoff}'`).join(', ')}, got '${retry.backoff}'.`);
+                }
+                for (const field of ['initialDelayMs', 'maxDelayMs'] as const) {
+                    const delayMs = retry[field];
+                    if (delayMs !== undefined && (typeof delayMs !== 'number' || !isFinite(delayMs) || delayMs < 0)) {
+                        errors.push(`'retry.${field}' must be a non-negative number of milliseconds, got '${delayMs}'.`);
+                    }
+                }
+            }
+        }
+        if (task.timeoutMs !== undefined && (typeof task.timeoutMs !== 'number' || !isFinite(task.timeoutMs) || task.timeoutMs <= 0)) {
+            errors.push(`'timeoutMs' must be a positive number of milliseconds, got '${task.timeoutMs}'.`);
+        }
+        return errors;
+    }
+
+    // Checks source.config and the destination configs against the schemas their plugins were registered with,
+    // and that every step of the transformers chain names a registered transformer.
+    // Plugins registered without a schema, or not registered yet, are not checked here.
+    private _validateTaskConfigs(task: IngestionTaskDefinition): string[] {
+        const errors: string[] = [];
+        if (!task.source?.pluginType) {
+            return ["'source.pluginType' is required."];
+        }
+        if (task.transformers !== undefined) {
+            if (!Array.isArray(task.transformers)) {
+                errors.push("'transformers' must be a list of { name, params } steps.");
+            } else {
+                task.transformers.forEach((step, index) => {
+                    if (!step?.name) {
+                        errors.push(`transformers[${index}].name is required.`);
+                    } else if (!this.transformers.has(step.name)) {
+                        errors.push(`transformers[${index}]: transformer '${step.name}' is not registered (known: ${Array.from(this.transformers.keys()).join(', ') || 'none'}).`);
+                    } else if (step.name === ROUTER_TRANSFORMER_NAME) {
+                        errors.push(...validateRouterParams(step.params, name => this.transformers.has(name), `transformers[${index}].params`));
+                    }
+                });
+            }
+        }
+        const namespaceConfig = this.namespaces.get(getTaskNamespace(task));
+        if (namespaceConfig?.allowedSourceTypes && !namespaceConfig.allowedSourceTypes.includes(task.source.pluginType)) {
+            errors.push(`Source plugin '${task.source.pluginType}' is not allowed in namespace '${getTaskNamespace(task)}' (allowed: ${namespaceConfig.allowedSourceTypes.join(', ') || 'none'}).`);
+        }
+        const sourceDef = this.sourcePlugins.get(task.source.pluginType);
+        if (sourceDef?.configSchema) {
+            const sourceConfig = mergeDefaultConfig(sourceDef.defaultConfig, task.source.config);
+            errors.push(...validateAgainstSchema(sourceDef.configSchema, sourceConfig, 'source.config'));
+        }
+        if (task.destinations !== undefined && !Array.isArray(task.destinations)) {
+            errors.push("'destinations' must be a list of { pluginType, config, name } destinations.");
+            return errors;
+        }
+        const destinationNames = new Set<string>();
+        task.destinations?.forEach((destination, index) => {
+            if (!destination?.pluginType) {
+                errors.push(`destinations[${index}].pluginType is required.`);
+            } else if (destination.name !== undefined) {
+                if (destinationNames.has(destination.name)) {
+                    errors.push(`destinations[${index}]: the name '${destination.name}' is used by another destination.`);
+                }
+                destinationNames.add(destination.name);
+            }
+        });
+        const configPaths = [
+            ...(task.destination ? [{ destination: task.destination, path: 'destination.config' }] : []),
+            ...(task.destinations || []).map((destination, index) => ({ destination, path: `destinations[${index}].config` })),
+        ];
+        for (const { destination, path } of configPaths) {
+            const destinationSchema = destination?.pluginType ? this.destinationPlugins.get(destination.pluginType)?.configSchema : undefined;
+            if (destinationSchema) {
+                errors.push(...validateAgainstSchema(destinationSchema, destination.config ?? {}, path));
+            }
+            errors.push(...applyOutputRoot(destination?.config, namespaceConfig?.outputRoot, path).errors);
+        }
+        return errors;
+    }
+
+    // Looks for a cycle that the given trigger would create for the task, following dependsOn edges
+    // through the currently scheduled tasks. Returns the cycle path (e.g. [a, b, a]) or undefined.
+    private _findDependencyCycle(taskId: string, trigger: IngestionTrigger | undefined, namespace?: string): string[] | undefined {
+        const upstreamOf = (id: string): string[] => {
+            return id === taskId ? this._getUpstreamIds(trigger, namespace) : this._getUpstreamIds(this.tasks.get(id)?.trigger, this.tasks.get(id)?.namespace);
+        };
+        const visit = (id: string, path: string[]): string[] | undefined => {
+            for (const upstreamId of upstreamOf(id)) {
+                if (upstreamId === taskId) {
+                    return [...path, upstreamId];
+                }
+                if (path.includes(upstreamId)) {
+                    continue; // A cycle that does not involve this task is reported when that task is scheduled
+                }
+                const cycle = visit(upstreamId, [...path, upstreamId]);
+                if (cycle) {
+                    return cycle;
+                }
+            }
+            return undefined;
+        };
+        return visit(taskId, [taskId]);
+    }
+
+    // dependsOn ids are relative to the task's namespace: 'fetch' in namespace 'team-a' is 'team-a/fetch'
+    private _getUpstreamIds(trigger: IngestionTrigger | undefined, namespace?: string): string[] {
+        return trigger?.type === 'dependency' ? ((trigger as DependencyTrigger).dependsOn || []).map(id => qualifyTaskId(namespace, id)) : [];
+    }
+
+    // Called when a run finishes for good (after retries). Records the outcome for every dependency-triggered
+    // task waiting on it and queues those whose upstream tasks have now all finished as required.
+    private _notifyDependents(ctx: GSContext, upstreamId: string, status: GSStatus): void {
+        for (const task of this.tasks.values()) {
+            if (!task.enabled || task.trigger.type !== 'dependency') {
+                continue;
+            }
+            const dependencyTrigger = task.trigger as DependencyTrigger;
+            const upstreamIds = this._getUpstreamIds(dependencyTrigger, task.namespace);
+            if (!upstreamIds.includes(upstreamId)) {
+                continue;
+            }
+            const condition = dependencyTrigger.on || 'success';
+            const outcomes = this.dependencyOutcomes.get(task.id) || new Map<string, GSStatus>();
+            const matches = condition === 'always' || (condition === 'success') === !!status.success;
+            if (!matches) {
+                // The upstream's latest outcome does not qualify, so an earlier one must not be used either
+                outcomes.delete(upstreamId);
+                this.dependencyOutcomes.set(task.id, outcomes);
+                logger.info(`Task '${task.id}' not triggered: upstream '${upstreamId}' finished with success=${status.success} (on: ${condition}).`);
+                continue;
+            }
+            outcomes.set(upstreamId, status);
+            const pending = upstreamIds.filter(id => !outcomes.has(id));
+            if (pending.length > 0) {
+                this.dependencyOutcomes.set(task.id, outcomes);
+                logger.info(`Task '${task.id}' is waiting for upstream tasks [${pending.join(', ')}].`);
+                continue;
+            }
+            this.dependencyOutcomes.delete(task.id);
+            const upstream: { [taskId: string]: { success: boolean; message?: string; runId?: string } } = {};
+            outcomes.forEach((upstreamStatus, id) => {
+                upstream[id] = { success: !!upstreamStatus.success, message: upstreamStatus.message, runId: upstreamStatus.data?.runId };
+            });
+            logger.info(`All upstream tasks of '${task.id}' finished. Queuing dependency-triggered run.`);
+            this._enqueueIngestionTask(ctx, task, { upstream }, 'dependency').catch((error: any) => {
+                logger.error(`Dependency-triggered run of task '${task.id}' failed: ${error.message}`, { error });
+            });
+        }
+    }
+
+    // Next cron occurrence strictly after the given date, or undefined if the expression is invalid
+    private _computeNextCronRun(task: IngestionTaskDefinition, after: Date): Date | undefined {
+        const cronTrigger = task.trigger as CronTrigger;
+        try {
+            return this._parseCron(cronTrigger, after).next().toDate();
+        } catch (error: any) {
+            logger.error(`Error parsing cron expression for task '${task.id}': ${cronTrigger.expression}. Error: ${error.message}`);
+            return undefined;
+        }
+    }
+
+    // First occurrence strictly after 'after'. With startAt, occurrences are startAt + n * everyMs.
+    private _computeNextIntervalRun(intervalTrigger: IntervalTrigger, after: Date): Date {
+        if (!intervalTrigger.startAt) {
+            return new Date(after.getTime() + intervalTrigger.everyMs);
+        }
+        const startAt = new Date(intervalTrigger.startAt).getTime();
+        if (startAt > after.getTime()) {
+            return new Date(startAt);
+        }
+        const elapsedIntervals = Math.floor((after.getTime() - startAt) / intervalTrigger.everyMs) + 1;
+        return new Date(startAt + elapsedIntervals * intervalTrigger.everyMs);
+    }
+
+    // Context for runs the manager starts on its own (internal timers), where no Godspeed event exists
+    private _createInternalContext(): GSContext {
+        if (this.contextFactory) {
+            return this.contextFactory();
+        }
+        return { event: { time: new Date().toISOString() }, inputs: {}, datasources: {}, config: {}, logger } as unknown as GSContext;
+    }
 }
\ No newline at end of file
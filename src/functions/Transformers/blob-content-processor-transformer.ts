@@ -1,7 +1,7 @@
 // \src\functions\Transformers\blob-content-processor-transformer.ts
 
 import { IngestionData } from '../ingestion/interfaces'; // Adjust path if necessary
-import { logger } from '@godspeedsystems/core';
+import { runLogger as logger } from '../ingestion/RunContext';
 import pdf from 'pdf-parse'; // FIX: Changed import to default import for pdf-parse
 
 /**
@@ -1,7 +1,7 @@
 // src\functions\Transformers\code-metadata-extractor-transformer.ts
 
 import { IngestionData } from '../ingestion/interfaces'; // Adjust path if necessary
-import { logger } from '@godspeedsystems/core';
+import { runLogger as logger } from '../ingestion/RunContext';
 import * as path from 'path'; // For path manipulation
 
 // A simple mapping for common code file extensions to languages
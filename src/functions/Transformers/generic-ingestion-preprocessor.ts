@@ -1,7 +1,7 @@
 // src\functions\Transformers\generic-ingestion-preprocessor.ts
 
 import { IngestionData } from '../ingestion/interfaces'; // Adjust path if necessary
-import { logger } from '@godspeedsystems/core';
+import { runLogger as logger } from '../ingestion/RunContext';
 
 /**
  * A generic preprocessor transformer for IngestionData items.
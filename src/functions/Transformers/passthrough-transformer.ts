@@ -1,7 +1,7 @@
 // src/mappings/passthrough-transformer.ts
 
 import { IngestionData } from '../ingestion/interfaces'; // Adjust path if necessary
-import { logger } from '@godspeedsystems/core';
+import { runLogger as logger } from '../ingestion/RunContext';
 
 /**
  * A simple passthrough transformer that takes an array of IngestionData items
@@ -1,7 +1,7 @@
 // src\functions\Transformers\teams-message-cleaner-transformer.ts
 
 import { IngestionData } from '../ingestion/interfaces'; // Adjust path if necessary
-import { logger } from '@godspeedsystems/core';
+import { runLogger as logger } from '../ingestion/RunContext';
 import * as cheerio from 'cheerio'; // For HTML parsing
 
 /**
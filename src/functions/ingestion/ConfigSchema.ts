@@ -0,0 +1,123 @@
+// src/functions/ingestion/ConfigSchema.ts
+
+// The subset of JSON Schema used to describe source and destination configs.
+// Supported keywords: type, properties, required, additionalProperties, items, enum, const,
+// minimum, maximum, minLength, pattern, anyOf and if/then/else. 'default' is not checked; task
+// templates use it to fill in parameters an instance leaves out.
+export interface JsonSchema {
+    type?: JsonSchemaType | JsonSchemaType[];
+    description?: string;
+    default?: any;
+    properties?: { [name: string]: JsonSchema };
+    required?: string[];
+    additionalProperties?: boolean | JsonSchema; // Defaults to true, as in JSON Schema
+    items?: JsonSchema;
+    enum?: any[];
+    const?: any;
+    minimum?: number;
+    maximum?: number;
+    minLength?: number;
+    pattern?: string;
+    anyOf?: JsonSchema[];
+    if?: JsonSchema;
+    then?: JsonSchema;
+    else?: JsonSchema;
+}
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+function typeOf(value: any): JsonSchemaType {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+    return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: any, type: JsonSchemaType): boolean {
+    const actual = typeOf(value);
+    return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Validates a value against a schema and returns every violation as a readable message,
+ * e.g. "config.depth must be of type integer, got string." An empty array means the value is valid.
+ * Properties that are undefined are treated as absent, so unset ${env.X} values only fail 'required'.
+ */
+export function validateAgainstSchema(schema: JsonSchema, value: any, path: string = 'config'): string[] {
+    const errors: string[] = [];
+
+    if (schema.type) {
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!types.some(type => matchesType(value, type))) {
+            errors.push(`${path} must be of type ${types.join(' or ')}, got ${typeOf(value)}.`);
+            return errors; // Further checks would only repeat the type mismatch
+        }
+    }
+    if (schema.const !== undefined && value !== schema.const) {
+        errors.push(`${path} must be ${JSON.stringify(schema.const)}.`);
+    }
+    if (schema.enum && !schema.enum.includes(value)) {
+        errors.push(`${path} must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}, got ${JSON.stringify(value)}.`);
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            errors.push(`${path} must be >= ${schema.minimum}, got ${value}.`);
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            errors.push(`${path} must be <= ${schema.maximum}, got ${value}.`);
+        }
+    }
+
+    if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            errors.push(schema.minLength === 1 ? `${path} must not be empty.` : `${path} must be at least ${schema.minLength} characters long.`);
+        }
+        if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+            errors.push(`${path} must match the pattern ${schema.pattern}.`);
+        }
+    }
+
+    if (Array.isArray(value) && schema.items) {
+        value.forEach((item, index) => errors.push(...validateAgainstSchema(schema.items as JsonSchema, item, `${path}[${index}]`)));
+    }
+
+    if (typeOf(value) === 'object') {
+        for (const name of schema.required || []) {
+            if (value[name] === undefined) {
+                errors.push(`${path}.${name} is required.`);
+            }
+        }
+        for (const [name, propertyValue] of Object.entries(value)) {
+            if (propertyValue === undefined) {
+                continue;
+            }
+            const propertySchema = schema.properties?.[name];
+            if (propertySchema) {
+                errors.push(...validateAgainstSchema(propertySchema, propertyValue, `${path}.${name}`));
+            } else if (schema.additionalProperties === false) {
+                errors.push(`${path}.${name} is not a known setting.`);
+            } else if (typeof schema.additionalProperties === 'object') {
+                errors.push(...validateAgainstSchema(schema.additionalProperties, propertyValue, `${path}.${name}`));
+            }
+        }
+    }
+
+    if (schema.anyOf) {
+        const branchErrors = schema.anyOf.map(branch => validateAgainstSchema(branch, value, path));
+        if (!branchErrors.some(branch => branch.length === 0)) {
+            const alternatives = branchErrors.map(branch => branch.join(' ')).join(' OR ');
+            errors.push(`${path} must satisfy one of: ${alternatives}`);
+        }
+    }
+
+    if (schema.if) {
+        const conditionHolds = validateAgainstSchema(schema.if, value, path).length === 0;
+        const branch = conditionHolds ? schema.then : schema.else;
+        if (branch) {
+            errors.push(...validateAgainstSchema(branch, value, path));
+        }
+    }
+
+    return errors;
+}
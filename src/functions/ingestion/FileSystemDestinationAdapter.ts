@@ -1,15 +1,31 @@
 // src/functions/ingestion/FileSystemDestinationAdapter.ts
 
 import { IDestinationPlugin, IngestionData } from './interfaces';
-import { GSStatus, logger } from '@godspeedsystems/core';
+import { GSStatus } from '@godspeedsystems/core';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { randomUUID } from 'crypto';
 import * as mime from 'mime-types'; // NEW: Import mime-types for better extension detection
+import { JsonSchema } from './ConfigSchema';
+import { runLogger as logger } from './RunContext';
 
 export interface FileSystemDestinationConfig {
     outputPath?: string;
 }
 
+// Plugin type the adapter is registered under by plugin discovery
+export const Type = 'file-system-destination';
+
+// Without an outputPath every batch is skipped, so the schema makes it mandatory
+export const CONFIG_SCHEMA: JsonSchema = {
+    type: 'object',
+    additionalProperties: false,
+    required: ['outputPath'],
+    properties: {
+        outputPath: { type: 'string', minLength: 1 },
+    },
+};
+
 // Define an interface for the metadata object as it will be serialized to JSON
 interface SerializedIngestionMetadata extends Omit<Partial<IngestionData>, 'fetchedAt' | 'content'> {
     fetchedAt?: string; // Override fetchedAt to be a string for serialization
@@ -77,7 +93,20 @@ export class FileSystemDestinationAdapter implements IDestinationPlugin {
         return '.dat'; // Last resort
     }
 
-    async processData(data: IngestionData[]): Promise<GSStatus> {
+    // Writes to a temporary file next to the target and renames it into place, so a process that is
+    // killed mid-batch leaves either the previous version of a file or the new one, never a partial file.
+    private async writeFileAtomic(filePath: string, content: string | Buffer): Promise<void> {
+        const tempFilePath = `${filePath}.${randomUUID()}.tmp`;
+        try {
+            await fs.writeFile(tempFilePath, content, typeof content === 'string' ? 'utf8' : undefined);
+            await fs.rename(tempFilePath, filePath);
+        } catch (error) {
+            await fs.unlink(tempFilePath).catch(() => undefined);
+            throw error;
+        }
+    }
+
+    async processData(data: IngestionData[], signal?: AbortSignal): Promise<GSStatus> {
         if (!this.isInitializedForSaving || !this.config?.outputPath) {
             return new GSStatus(false, 400, `FileSystemDestinationAdapter: Skipping save of ${data.length} files because outputPath was not provided or directory could not be created.`);
         }
@@ -88,6 +117,14 @@ export class FileSystemDestinationAdapter implements IDestinationPlugin {
         let deletedCount = 0;
         const errors: string[] = [];
 
+        // Checked right before each file operation. All items start at once, so a check at the top of
+        // the callback would run before the first write and never see an abort during the batch.
+        const throwIfAborted = (item: IngestionData) => {
+            if (signal?.aborted) {
+                throw new Error(`Processing of item ${item.id} cancelled.`);
+            }
+        };
+
         const results = await Promise.allSettled(data.map(async (item) => {
             const baseFilename = this.getSafeBaseFilename(item);
             const fileExtension = this.getFileExtension(item); // Use the new helper
@@ -103,6 +140,7 @@ export class FileSystemDestinationAdapter implements IDestinationPlugin {
                     let contentDeleted = false;
                     let metadataDeleted = false;
 
+                    throwIfAborted(item);
                     try {
                         await fs.unlink(contentFilePath);
                         logger.info(`FileSystemDestinationAdapter: Successfully deleted content file: ${contentFilePath}`);
@@ -116,6 +154,7 @@ export class FileSystemDestinationAdapter implements IDestinationPlugin {
                         }
                     }
 
+                    throwIfAborted(item);
                     try {
                         await fs.unlink(metadataFilePath);
                         logger.info(`FileSystemDestinationAdapter: Successfully deleted metadata file: ${metadataFilePath}`);
@@ -156,7 +195,8 @@ export class FileSystemDestinationAdapter implements IDestinationPlugin {
                         contentToWrite = ''; // Handle null/undefined content
                     }
                     
-                    await fs.writeFile(contentFilePath, contentToWrite); // Write content
+                    throwIfAborted(item);
+                    await this.writeFileAtomic(contentFilePath, contentToWrite); // Write content
 
                     // 2. Save the metadata to a separate JSON file
 const metadataToSave: SerializedIngestionMetadata = {
@@ -166,7 +206,8 @@ const metadataToSave: SerializedIngestionMetadata = {
     // Explicitly remove content, as it's not part of SerializedIngestionMetadata
     content: undefined // Ensure 'content' property is not copied or is undefined
 };
-                    await fs.writeFile(metadataFilePath, JSON.stringify(metadataToSave, null, 2), 'utf8');
+                    throwIfAborted(item);
+                    await this.writeFileAtomic(metadataFilePath, JSON.stringify(metadataToSave, null, 2));
 
                     logger.debug(`FileSystemDestinationAdapter: Saved content and metadata for item: ${baseFilename}${fileExtension}`); // FIX: Log correct filename
                     successCount++;
@@ -0,0 +1,188 @@
+// src/functions/ingestion/FileWatcher.ts
+
+import { logger } from '@godspeedsystems/core';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileWatchTrigger } from './interfaces';
+
+export interface FileWatchChanges {
+    created: string[];
+    changed: string[];
+    deleted: string[];
+}
+
+type ChangeKind = keyof FileWatchChanges;
+
+interface CompiledPattern {
+    glob: string;
+    regex: RegExp;
+}
+
+const DEFAULT_DEBOUNCE_MS = 1000;
+
+// Converts a glob ('*', '**', '?', '{a,b}') into an anchored regular expression
+export function globToRegExp(glob: string): RegExp {
+    let pattern = '';
+    let inGroup = false;
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        switch (char) {
+            case '*':
+                if (glob[i + 1] === '*') {
+                    // '**/' matches zero or more directories, a trailing '**' matches everything below
+                    const followedBySlash = glob[i + 2] === '/';
+                    pattern += followedBySlash ? '(?:.*/)?' : '.*';
+                    i += followedBySlash ? 2 : 1;
+                } else {
+                    pattern += '[^/]*';
+                }
+                break;
+            case '?':
+                pattern += '[^/]';
+                break;
+            case '{':
+                inGroup = true;
+                pattern += '(?:';
+                break;
+            case '}':
+                inGroup = false;
+                pattern += ')';
+                break;
+            case ',':
+                pattern += inGroup ? '|' : ',';
+                break;
+            default:
+                pattern += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+                break;
+        }
+    }
+    return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Watches a directory for a FileWatchTrigger and reports debounced batches of created, changed
+ * and deleted files. fs.watch only reports that "something happened" to a name, so the watcher
+ * keeps the set of known files to tell creations, modifications and deletions apart.
+ */
+export class FileWatcher {
+    private trigger: FileWatchTrigger;
+    private directory: string;
+    private onChanges: (changes: FileWatchChanges) => void;
+    private includes: CompiledPattern[];
+    private excludes: CompiledPattern[];
+    private knownFiles: Set<string> = new Set();
+    private pending: Map<string, ChangeKind> = new Map();
+    private watcher: fs.FSWatcher | undefined;
+    private debounceTimer: NodeJS.Timeout | undefined;
+
+    constructor(trigger: FileWatchTrigger, onChanges: (changes: FileWatchChanges) => void) {
+        this.trigger = trigger;
+        this.directory = path.resolve(trigger.path);
+        this.onChanges = onChanges;
+        const compile = (glob: string): CompiledPattern => ({ glob, regex: globToRegExp(glob) });
+        this.includes = (trigger.patterns && trigger.patterns.length > 0 ? trigger.patterns : ['**']).map(compile);
+        this.excludes = (trigger.ignore || []).map(compile);
+    }
+
+    public async start(): Promise<void> {
+        await this._scan(this.directory);
+        this.watcher = fs.watch(this.directory, { recursive: this.trigger.recursive ?? false }, (_eventType, filename) => {
+            if (filename) {
+                void this._handleEvent(filename.toString());
+            }
+        });
+        this.watcher.on('error', (error: any) => {
+            logger.error(`FileWatcher: Error watching ${this.directory}: ${error.message}`, { error });
+        });
+        logger.info(`FileWatcher: Watching ${this.directory} (${this.knownFiles.size} existing files).`);
+    }
+
+    public close(): void {
+        clearTimeout(this.debounceTimer);
+        this.debounceTimer = undefined;
+        this.pending.clear();
+        this.watcher?.close();
+        this.watcher = undefined;
+    }
+
+    private async _handleEvent(filename: string): Promise<void> {
+        const absolutePath = path.join(this.directory, filename);
+        if (!this._matches(filename)) {
+            return;
+        }
+        let exists = false;
+        try {
+            exists = (await fs.promises.stat(absolutePath)).isFile();
+        } catch {
+            exists = false;
+        }
+        if (!this.watcher) {
+            return; // Closed while the stat was in flight
+        }
+
+        const known = this.knownFiles.has(absolutePath);
+        if (exists) {
+            this.knownFiles.add(absolutePath);
+            this._record(absolutePath, known ? 'changed' : 'created');
+        } else if (known) {
+            this.knownFiles.delete(absolutePath);
+            this._record(absolutePath, 'deleted');
+        } else {
+            return; // A temporary file that came and went, or a directory
+        }
+
+        clearTimeout(this.debounceTimer);
+        this.debounceTimer = setTimeout(() => this._flush(), this.trigger.debounceMs ?? DEFAULT_DEBOUNCE_MS);
+    }
+
+    // Merges a new change into the pending batch, e.g. created + changed stays created
+    // and created + deleted cancels out.
+    private _record(filePath: string, kind: ChangeKind): void {
+        const previous = this.pending.get(filePath);
+        if (previous === 'created' && kind === 'changed') {
+            return;
+        }
+        if (previous === 'created' && kind === 'deleted') {
+            this.pending.delete(filePath);
+            return;
+        }
+        if (previous === 'deleted' && kind === 'created') {
+            this.pending.set(filePath, 'changed');
+            return;
+        }
+        this.pending.set(filePath, kind);
+    }
+
+    private _flush(): void {
+        this.debounceTimer = undefined;
+        if (this.pending.size === 0) {
+            return;
+        }
+        const changes: FileWatchChanges = { created: [], changed: [], deleted: [] };
+        this.pending.forEach((kind, filePath) => changes[kind].push(filePath));
+        this.pending.clear();
+        logger.info(`FileWatcher: ${changes.created.length} created, ${changes.changed.length} changed, ${changes.deleted.length} deleted in ${this.directory}.`);
+        this.onChanges(changes);
+    }
+
+    // Patterns without a '/' are matched against the file name, all others against the path relative to the watched directory
+    private _matches(relativePath: string): boolean {
+        const normalized = relativePath.split(path.sep).join('/');
+        const test = (pattern: CompiledPattern) => pattern.regex.test(pattern.glob.includes('/') ? normalized : path.posix.basename(normalized));
+        return this.includes.some(test) && !this.excludes.some(test);
+    }
+
+    private async _scan(directory: string): Promise<void> {
+        const entries = await fs.promises.readdir(directory, { withFileTypes: true });
+        for (const entry of entries) {
+            const absolutePath = path.join(directory, entry.name);
+            if (entry.isDirectory()) {
+                if (this.trigger.recursive) {
+                    await this._scan(absolutePath);
+                }
+            } else if (entry.isFile() && this._matches(path.relative(this.directory, absolutePath))) {
+                this.knownFiles.add(absolutePath);
+            }
+        }
+    }
+}
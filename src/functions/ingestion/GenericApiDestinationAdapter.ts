@@ -1,7 +1,21 @@
 //C:\Users\SOHAM\Desktop\crawler\test-crawler\src\functions\ingestion\GenericApiDestinationAdapter.ts
 
 import { IDestinationPlugin, IngestionData } from './interfaces';
-import { GSStatus, logger } from '@godspeedsystems/core';
+import { GSStatus } from '@godspeedsystems/core';
+import { JsonSchema } from './ConfigSchema';
+import { runLogger as logger } from './RunContext';
+
+// Plugin type the adapter is registered under by plugin discovery
+export const Type = 'generic-api-destination';
+
+export const CONFIG_SCHEMA: JsonSchema = {
+    type: 'object',
+    additionalProperties: false,
+    required: ['endpoint'],
+    properties: {
+        endpoint: { type: 'string', pattern: '^https?://' },
+    },
+};
 
 export class GenericApiDestinationAdapter implements IDestinationPlugin {
     private config: any;
@@ -19,9 +33,10 @@ export class GenericApiDestinationAdapter implements IDestinationPlugin {
      * Processes (sends) a batch of IngestionData items to the generic API endpoint.
      * This method implements the 'processData' from IDestinationPlugin.
      * @param data The array of IngestionData items to send.
+     * @param signal Aborted when the ingestion run is cancelled; a real HTTP call should pass it on.
      * @returns A GSStatus indicating overall success or failure for the batch.
      */
-    async processData(data: IngestionData[]): Promise<GSStatus> { // <--- FIX: Renamed sendBatch to processData
+    async processData(data: IngestionData[], signal?: AbortSignal): Promise<GSStatus> { // <--- FIX: Renamed sendBatch to processData
         if (!this.config || !this.config.endpoint) { // Example check for endpoint config
             const errorMessage = "GenericApiDestinationAdapter: Endpoint configuration missing.";
             logger.error(errorMessage);
@@ -0,0 +1,139 @@
+// src/functions/ingestion/IngestionEventBus.ts
+
+import { logger } from '@godspeedsystems/core';
+import { IngestionEventEnvelope, IngestionEventName, IngestionEventPayloads, LegacyIngestionEventName, LegacyIngestionEventNames } from './interfaces';
+
+// An event name, or a pattern where '*' stands for one dot-separated segment and '**' for any number
+// of them: 'task.*' matches 'task.completed' and 'task.failed', '**' matches every event.
+// Deprecated legacy names such as 'task_completed' subscribe to their dotted event.
+export type IngestionEventPattern = IngestionEventName | LegacyIngestionEventName | `${string}*${string}`;
+
+// Envelope type of the events a name or pattern subscribes to
+export type IngestionEventOf<P extends string> = P extends IngestionEventName
+    ? IngestionEventEnvelope<IngestionEventPayloads[P]>
+    : P extends LegacyIngestionEventName
+        ? IngestionEventEnvelope<IngestionEventPayloads[typeof LegacyIngestionEventNames[P]]>
+        : IngestionEventEnvelope<IngestionEventPayloads[IngestionEventName]>;
+
+export type IngestionEventListener<P extends string> = (event: IngestionEventOf<P>, eventName: IngestionEventName) => void;
+
+interface Subscription {
+    pattern: string;
+    regex: RegExp;
+    listener: (event: IngestionEventEnvelope, eventName: IngestionEventName) => void;
+    once: boolean;
+}
+
+// Legacy names already warned about, so that each is reported once per process
+const warnedLegacyNames = new Set<string>();
+
+function resolveLegacyName(pattern: string): string {
+    const eventName: string | undefined = (LegacyIngestionEventNames as { [name: string]: string })[pattern];
+    if (!eventName) {
+        return pattern;
+    }
+    if (!warnedLegacyNames.has(pattern)) {
+        warnedLegacyNames.add(pattern);
+        logger.warn(`IngestionEventBus: The event name '${pattern}' is deprecated and will be removed. Subscribe to '${eventName}' instead.`);
+    }
+    return eventName;
+}
+
+function patternToRegExp(pattern: string): RegExp {
+    const source = pattern
+        .split('.')
+        .map(segment => segment === '**' ? '.*' : segment.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^.]*'))
+        .join('\\.');
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Typed publish/subscribe bus for ingestion lifecycle events. Every event is delivered as an
+ * IngestionEventEnvelope whose payload type is fixed per event by IngestionEventPayloads.
+ * A listener that throws is logged and does not affect the emitter or the other listeners.
+ */
+export class IngestionEventBus {
+    private subscriptions: Subscription[] = [];
+
+    public emit<E extends IngestionEventName>(eventName: E, event: IngestionEventEnvelope<IngestionEventPayloads[E]>): void {
+        // Copied so that listeners can unsubscribe (or subscribe) while the event is delivered
+        for (const subscription of [...this.subscriptions]) {
+            if (!subscription.regex.test(eventName)) {
+                continue;
+            }
+            if (subscription.once) {
+                this._remove(subscription);
+            }
+            try {
+                subscription.listener(event, eventName);
+            } catch (error: any) {
+                logger.error(`IngestionEventBus: Listener for '${subscription.pattern}' failed on '${eventName}': ${error.message}`, { error });
+            }
+        }
+    }
+
+    // Returns a function that removes the listener again
+    public on<P extends IngestionEventPattern>(pattern: P, listener: IngestionEventListener<P>): () => void {
+        return this._subscribe(pattern, listener, false);
+    }
+
+    public once<P extends IngestionEventPattern>(pattern: P, listener: IngestionEventListener<P>): () => void {
+        return this._subscribe(pattern, listener, true);
+    }
+
+    public off<P extends IngestionEventPattern>(pattern: P, listener: IngestionEventListener<P>): void {
+        const subscription = this.subscriptions.find(candidate => candidate.pattern === pattern && candidate.listener === listener);
+        if (subscription) {
+            this._remove(subscription);
+        }
+    }
+
+    /**
+     * Resolves with the first matching event emitted from now on for which the predicate holds.
+     * Rejects when timeoutMs passes first, or with the predicate's error when it throws; either way
+     * the listener is removed. Without a timeout it waits indefinitely.
+     */
+    public waitFor<P extends IngestionEventPattern>(pattern: P, predicate?: (event: IngestionEventOf<P>, eventName: IngestionEventName) => boolean, timeoutMs?: number): Promise<IngestionEventOf<P>> {
+        return new Promise<IngestionEventOf<P>>((resolve, reject) => {
+            let timer: NodeJS.Timeout | undefined;
+            const unsubscribe = this.on(pattern, (event, eventName) => {
+                try {
+                    if (predicate && !predicate(event, eventName)) {
+                        return;
+                    }
+                } catch (error) {
+                    clearTimeout(timer);
+                    unsubscribe();
+                    reject(error);
+                    return;
+                }
+                clearTimeout(timer);
+                unsubscribe();
+                resolve(event);
+            });
+            if (timeoutMs !== undefined) {
+                timer = setTimeout(() => {
+                    unsubscribe();
+                    reject(new Error(`Timed out after ${timeoutMs}ms waiting for '${pattern}'.`));
+                }, timeoutMs);
+            }
+        });
+    }
+
+    public listenerCount(pattern?: IngestionEventPattern): number {
+        return pattern === undefined ? this.subscriptions.length : this.subscriptions.filter(subscription => subscription.pattern === pattern).length;
+    }
+
+    private _subscribe(pattern: string, listener: (event: any, eventName: IngestionEventName) => void, once: boolean): () => void {
+        const subscription: Subscription = { pattern, regex: patternToRegExp(resolveLegacyName(pattern)), listener, once };
+        this.subscriptions.push(subscription);
+        return () => this._remove(subscription);
+    }
+
+    private _remove(subscription: Subscription): void {
+        const index = this.subscriptions.indexOf(subscription);
+        if (index !== -1) {
+            this.subscriptions.splice(index, 1);
+        }
+    }
+}
@@ -0,0 +1,33 @@
+// src/functions/ingestion/IngestionManagerInstance.ts
+// The application's GlobalIngestionLifecycleManager singleton. Importing this module only creates the
+// manager; plugins, tasks and the start are set up by src/functions/test-run.ts.
+
+import { logger } from '@godspeedsystems/core';
+import { GlobalIngestionLifecycleManager } from '../GlobalIngestionLifecycleManager';
+import { NamespaceConfig } from './interfaces';
+import { FileTaskStore } from './TaskStore';
+
+// INGESTION_NAMESPACES as JSON. A value that cannot be parsed is logged and ignored, so the app still
+// starts, with no namespace limits.
+function readNamespaces(): { [namespace: string]: NamespaceConfig } | undefined {
+    if (!process.env.INGESTION_NAMESPACES) {
+        return undefined;
+    }
+    try {
+        return JSON.parse(process.env.INGESTION_NAMESPACES);
+    } catch (error: any) {
+        logger.error(`INGESTION_NAMESPACES is not valid JSON (${error.message}). Starting without namespace limits.`, { error });
+        return undefined;
+    }
+}
+
+// Task definitions and their run state are persisted so that a restart keeps lastRun/currentStatus.
+export const globalIngestionManager = new GlobalIngestionLifecycleManager({
+    taskStore: new FileTaskStore({ filePath: process.env.INGESTION_TASK_STORE_PATH || './ingestion_state/tasks.json' }),
+    maxConcurrentRuns: Number(process.env.INGESTION_MAX_CONCURRENT_RUNS) || undefined,
+    // Set to 'true' to schedule cron tasks without the events/cron-test.yaml tick
+    internalScheduler: process.env.INGESTION_INTERNAL_SCHEDULER === 'true',
+    // Limits for the teams sharing this deployment, e.g.
+    // { "team-a": { "maxConcurrentRuns": 2, "allowedSourceTypes": ["git-crawler"], "outputRoot": "./crawled_output/team-a" } }
+    namespaces: readNamespaces(),
+});
@@ -0,0 +1,64 @@
+// src/functions/ingestion/Namespaces.ts
+
+import * as path from 'path';
+import { IngestionTaskDefinition, NamespaceConfig } from './interfaces';
+
+// Namespace of tasks that do not set one. Their ids are not qualified, so existing task ids keep working.
+export const DEFAULT_NAMESPACE = 'default';
+const NAMESPACE_PATTERN = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?$/;
+
+export function getTaskNamespace(task: Pick<IngestionTaskDefinition, 'namespace'>): string {
+    return task.namespace || DEFAULT_NAMESPACE;
+}
+
+// 'team-a' + 'daily-crawl' -> 'team-a/daily-crawl'. An id that is already qualified is returned as it is.
+export function qualifyTaskId(namespace: string | undefined, taskId: string): string {
+    if (!namespace || namespace === DEFAULT_NAMESPACE || taskId.startsWith(`${namespace}/`)) {
+        return taskId;
+    }
+    return `${namespace}/${taskId}`;
+}
+
+// '/' only separates a namespace from the id, so an id may contain it only after its own namespace
+export function validateTaskId(namespace: string | undefined, taskId: string): string[] {
+    const prefix = namespace && namespace !== DEFAULT_NAMESPACE ? `${namespace}/` : undefined;
+    const localId = prefix && taskId.startsWith(prefix) ? taskId.slice(prefix.length) : taskId;
+    if (localId.includes('/')) {
+        return [`Task id '${taskId}' must not contain '/' except after its own namespace (namespace: '${namespace || DEFAULT_NAMESPACE}').`];
+    }
+    return [];
+}
+
+export function validateNamespace(namespace: string, config?: NamespaceConfig): string[] {
+    const errors: string[] = [];
+    if (!NAMESPACE_PATTERN.test(namespace)) {
+        errors.push(`Namespace '${namespace}' must consist of lowercase letters, digits and '-'.`);
+    }
+    if (config?.maxConcurrentRuns !== undefined && (!Number.isInteger(config.maxConcurrentRuns) || config.maxConcurrentRuns < 1)) {
+        errors.push(`Namespace '${namespace}': maxConcurrentRuns must be a positive integer.`);
+    }
+    if (config?.allowedSourceTypes !== undefined && !Array.isArray(config.allowedSourceTypes)) {
+        errors.push(`Namespace '${namespace}': allowedSourceTypes must be a list of source plugin types.`);
+    }
+    if (config?.outputRoot !== undefined && (typeof config.outputRoot !== 'string' || config.outputRoot.length === 0)) {
+        errors.push(`Namespace '${namespace}': outputRoot must be a directory path.`);
+    }
+    return errors;
+}
+
+/**
+ * Resolves a destination config's outputPath inside the namespace's outputRoot. Returns the config
+ * unchanged when there is no outputRoot or outputPath, and an error when the path is absolute or
+ * leaves the root (e.g. '../other-team').
+ */
+export function applyOutputRoot(config: any, outputRoot: string | undefined, configPath: string): { config: any, errors: string[] } {
+    if (!outputRoot || typeof config?.outputPath !== 'string') {
+        return { config, errors: [] };
+    }
+    const root = path.resolve(outputRoot);
+    const resolved = path.resolve(root, config.outputPath);
+    if (path.isAbsolute(config.outputPath) || (resolved !== root && !resolved.startsWith(root + path.sep))) {
+        return { config, errors: [`${configPath}.outputPath '${config.outputPath}' must be a relative path inside the namespace's outputRoot.`] };
+    }
+    return { config: { ...config, outputPath: resolved }, errors: [] };
+}
@@ -0,0 +1,109 @@
+// src/functions/ingestion/PluginDiscovery.ts
+
+import { logger } from '@godspeedsystems/core';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { DestinationConstructor, IGlobalIngestionLifecycleManager, IngestionDataTransformer } from './interfaces';
+
+export interface PluginDiscoveryOptions {
+    sourceDirectory: string; // e.g. src/datasources/types
+    destinationDirectory?: string; // e.g. src/functions/ingestion
+    // Only files matching this are loaded from destinationDirectory (default: *DestinationAdapter.ts/.js)
+    destinationFilePattern?: RegExp;
+    // Every default export in this directory is registered as a named transformer, named after its file
+    // without the '-transformer' suffix (e.g. html-to-plaintext-transformer.ts -> 'html-to-plaintext')
+    transformerDirectory?: string;
+    transformers?: { [sourceType: string]: IngestionDataTransformer }; // Transformer per source Type
+    defaultTransformer: IngestionDataTransformer; // Used for sources without an entry in 'transformers'
+}
+
+export interface DiscoveredPlugin {
+    kind: 'source' | 'destination' | 'transformer';
+    type: string;
+    file: string;
+}
+
+const DEFAULT_DESTINATION_FILE_PATTERN = /DestinationAdapter\.(ts|js)$/;
+
+/**
+ * Registers every source, destination and transformer module found in the given directories.
+ * A source module must export `DataSource` and `Type` (as the crawlers in src/datasources/types do);
+ * its `CONFIG_SCHEMA` and `DEFAULT_CONFIG` are registered with it when present. A destination
+ * module must export `Type` and a class implementing processData(). A transformer module must
+ * have a default export function. Modules that cannot be
+ * loaded are logged and skipped, so one broken plugin does not prevent the others from registering.
+ */
+export async function discoverPlugins(manager: IGlobalIngestionLifecycleManager, options: PluginDiscoveryOptions): Promise<DiscoveredPlugin[]> {
+    const discovered: DiscoveredPlugin[] = [];
+
+    for (const file of await listModules(options.sourceDirectory)) {
+        const pluginModule = await loadModule(file);
+        if (!pluginModule?.DataSource || typeof pluginModule.Type !== 'string') {
+            logger.debug(`PluginDiscovery: ${file} does not export DataSource and Type. Skipping.`);
+            continue;
+        }
+        const type: string = pluginModule.Type;
+        const transformer = options.transformers?.[type] || options.defaultTransformer;
+        manager.registerSource(type, pluginModule.DataSource, transformer, pluginModule.CONFIG_SCHEMA, pluginModule.DEFAULT_CONFIG);
+        discovered.push({ kind: 'source', type, file });
+    }
+
+    if (options.destinationDirectory) {
+        const pattern = options.destinationFilePattern || DEFAULT_DESTINATION_FILE_PATTERN;
+        const files = (await listModules(options.destinationDirectory)).filter(file => pattern.test(file));
+        for (const file of files) {
+            const pluginModule = await loadModule(file);
+            const destinationClass = pluginModule && Object.values(pluginModule).find(isDestinationConstructor);
+            if (!destinationClass || typeof pluginModule.Type !== 'string') {
+                logger.debug(`PluginDiscovery: ${file} does not export Type and a destination class. Skipping.`);
+                continue;
+            }
+            manager.registerDestination(pluginModule.Type, destinationClass, pluginModule.CONFIG_SCHEMA);
+            discovered.push({ kind: 'destination', type: pluginModule.Type, file });
+        }
+    }
+
+    if (options.transformerDirectory) {
+        for (const file of await listModules(options.transformerDirectory)) {
+            const transformerModule = await loadModule(file);
+            if (typeof transformerModule?.default !== 'function') {
+                logger.debug(`PluginDiscovery: ${file} has no default export function. Skipping.`);
+                continue;
+            }
+            const name = path.basename(file).replace(/\.(ts|js)$/, '').replace(/-transformer$/, '');
+            manager.registerTransformer(name, transformerModule.default);
+            discovered.push({ kind: 'transformer', type: name, file });
+        }
+    }
+
+    logger.info(`PluginDiscovery: Registered ${discovered.length} plugins: ${discovered.map(plugin => `${plugin.type} (${plugin.kind})`).join(', ')}.`);
+    return discovered;
+}
+
+// A class whose instances have processData(), as IDestinationPlugin requires
+function isDestinationConstructor(exported: unknown): exported is DestinationConstructor {
+    return typeof exported === 'function' && typeof exported.prototype?.processData === 'function';
+}
+
+// .ts files when running from src, .js files when running from dist
+async function listModules(directory: string): Promise<string[]> {
+    try {
+        const fileNames = await fs.readdir(directory);
+        return fileNames
+            .filter(fileName => /\.(ts|js)$/.test(fileName) && !fileName.endsWith('.d.ts'))
+            .sort()
+            .map(fileName => path.join(directory, fileName));
+    } catch (error: any) {
+        logger.error(`PluginDiscovery: Could not read plugin directory ${directory}: ${error.message}`, { error });
+        return [];
+    }
+}
+
+async function loadModule(file: string): Promise<any> {
+    try {
+        return await import(file);
+    } catch (error: any) {
+        logger.error(`PluginDiscovery: Failed to load plugin module ${file}: ${error.message}`, { error });
+        return undefined;
+    }
+}
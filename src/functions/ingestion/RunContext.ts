@@ -0,0 +1,46 @@
+// src/functions/ingestion/RunContext.ts
+
+import { logger } from '@godspeedsystems/core';
+import { AsyncLocalStorage } from 'async_hooks';
+import { IngestionEventEnvelope, IngestionEventName, IngestionEventPayloads, RunContext } from './interfaces';
+import { IngestionEventBus } from './IngestionEventBus';
+
+export type IngestionLogger = typeof logger;
+
+export function createEventEnvelope<T>(taskId: string | undefined, payload: T, run?: RunContext): IngestionEventEnvelope<T> {
+    return {
+        runId: run?.runId,
+        taskId: run?.taskId ?? taskId,
+        attempt: run?.attempt,
+        timestamp: new Date().toISOString(),
+        payload,
+    };
+}
+
+// Wraps the payload in an envelope for the task (and run, when given) and emits it
+export function emitIngestionEvent<E extends IngestionEventName>(eventBus: IngestionEventBus, event: E, taskId: string | undefined, payload: IngestionEventPayloads[E], run?: RunContext): void {
+    eventBus.emit(event, createEventEnvelope(taskId, payload, run));
+}
+
+// A child logger that adds the run's ids to every line, so all logs of a run can be found by runId
+export function getRunLogger(run?: RunContext): IngestionLogger {
+    return run ? logger.child({ runId: run.runId, taskId: run.taskId, attempt: run.attempt }) : logger;
+}
+
+const runStorage = new AsyncLocalStorage<{ log: IngestionLogger }>();
+
+// Calls fn with run as the current run. Sources, transformers and destinations cannot be handed the
+// run, so they log through runLogger, which picks it up from here.
+export function runWithContext<T>(run: RunContext, fn: () => T): T {
+    return runStorage.run({ log: getRunLogger(run) }, fn);
+}
+
+// Logger for plugins: writes through the current run's logger, so lines carry its runId, and through
+// the global logger outside a run (e.g. while a plugin is initialized)
+export const runLogger: IngestionLogger = new Proxy(logger, {
+    get(_target, property) {
+        const current: any = runStorage.getStore()?.log ?? logger;
+        const value = current[property];
+        return typeof value === 'function' ? value.bind(current) : value;
+    },
+});
@@ -0,0 +1,360 @@
+// src/functions/ingestion/TaskDefinitionLoader.ts
+
+import { logger } from '@godspeedsystems/core';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { IGlobalIngestionLifecycleManager, IngestionTaskDefinition, IngestionTaskTemplate } from './interfaces';
+import { FileWatcher, FileWatchChanges } from './FileWatcher';
+import { diffTaskDefinition, isDeepEqual } from './TaskTemplates';
+import { qualifyTaskId } from './Namespaces';
+
+export interface TaskDefinitionLoaderConfig {
+    directory: string; // Folder holding the *.yaml / *.yml task files, e.g. 'src/ingestion-tasks'
+    watch?: boolean; // Apply changes to the files while the app is running (default true)
+    debounceMs?: number; // Quiet period after a file change before it is applied (default 500)
+}
+
+const TASK_FILE_PATTERNS = ['*.yaml', '*.yml'];
+const DEFAULT_DEBOUNCE_MS = 500;
+const ENV_PATTERN = /\$\{env\.([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+// Replaces ${env.NAME} in every string of a parsed YAML document. A value that is only a reference
+// to an unset variable becomes undefined, so optional settings can be left to the environment.
+export function interpolateEnv(value: any, missing: Set<string> = new Set()): any {
+    if (typeof value === 'string') {
+        const whole = value.match(/^\$\{env\.([A-Za-z_][A-Za-z0-9_]*)\}$/);
+        if (whole) {
+            if (process.env[whole[1]] === undefined) {
+                missing.add(whole[1]);
+            }
+            return process.env[whole[1]];
+        }
+        return value.replace(ENV_PATTERN, (_match, name: string) => {
+            if (process.env[name] === undefined) {
+                missing.add(name);
+                return '';
+            }
+            return process.env[name] as string;
+        });
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => interpolateEnv(item, missing));
+    }
+    if (value && typeof value === 'object') {
+        const result: any = {};
+        for (const [key, item] of Object.entries(value)) {
+            result[key] = interpolateEnv(item, missing);
+        }
+        return result;
+    }
+    return value;
+}
+
+// A task created from a template: { id, template: <template id>, params, enabled?, namespace? }
+interface TemplateInstanceDocument {
+    id: string;
+    namespace?: string;
+    template: string;
+    params?: { [name: string]: any };
+    enabled?: boolean;
+}
+
+interface TaskFileContents {
+    templates: IngestionTaskTemplate[];
+    tasks: Array<IngestionTaskDefinition | TemplateInstanceDocument>;
+}
+
+const isInstanceDocument = (document: any): document is TemplateInstanceDocument => typeof document?.template === 'string';
+
+/**
+ * Loads ingestion task definitions from YAML files into the lifecycle manager and keeps them in sync.
+ * A file holds one task definition or a list of them. New tasks are scheduled, known tasks are updated
+ * (keeping their run state) and tasks whose definition disappeared from the folder are deleted, also
+ * when that happened while the app was not running (tasks record their file in 'sourceFile').
+ * Documents with 'kind: template' register task templates, and documents with a 'template' id and
+ * 'params' create instances of one; templates from every file are registered before any task.
+ */
+export class TaskDefinitionLoader {
+    private config: TaskDefinitionLoaderConfig;
+    private manager: IGlobalIngestionLifecycleManager;
+    private fileTasks: Map<string, Set<string>> = new Map(); // Absolute file path -> ids of the tasks it defines
+    private fileTemplates: Map<string, Set<string>> = new Map(); // Absolute file path -> ids of the templates it defines
+    private watcher: FileWatcher | undefined;
+    private applyChain: Promise<void> = Promise.resolve();
+
+    constructor(manager: IGlobalIngestionLifecycleManager, config: TaskDefinitionLoaderConfig) {
+        if (!config?.directory) {
+            throw new Error("TaskDefinitionLoader: 'directory' is required in the configuration.");
+        }
+        this.manager = manager;
+        this.config = config;
+    }
+
+    // Loads every task file once and, unless disabled, starts watching the folder for changes
+    public async load(): Promise<void> {
+        const directory = path.resolve(this.config.directory);
+        let fileNames: string[];
+        try {
+            fileNames = await fs.readdir(directory);
+        } catch (error: any) {
+            logger.error(`TaskDefinitionLoader: Could not read task directory ${directory}: ${error.message}`, { error });
+            return;
+        }
+        const taskFiles = fileNames.filter(fileName => /\.ya?ml$/.test(fileName)).sort();
+        const contents = new Map<string, TaskFileContents>();
+        const unreadableFiles = new Set<string>();
+        for (const fileName of taskFiles) {
+            const filePath = path.join(directory, fileName);
+            try {
+                contents.set(filePath, await this._readFile(filePath));
+            } catch (error: any) {
+                logger.error(`TaskDefinitionLoader: Skipping ${filePath}: ${error.message}`, { error });
+                unreadableFiles.add(filePath);
+            }
+        }
+        // Instances may be defined in a different file than their template
+        for (const [filePath, { templates }] of contents) {
+            await this._applyTemplates(filePath, templates);
+        }
+        for (const [filePath, { tasks }] of contents) {
+            await this._applyTasks(filePath, tasks);
+        }
+        await this._deleteOrphanedTasks(directory, unreadableFiles);
+        logger.info(`TaskDefinitionLoader: Loaded ${taskFiles.length} task files from ${directory}.`);
+
+        if (this.config.watch ?? true) {
+            await this._watch(directory);
+        }
+    }
+
+    public close(): void {
+        this.watcher?.close();
+        this.watcher = undefined;
+    }
+
+    private async _watch(directory: string): Promise<void> {
+        this.watcher = new FileWatcher(
+            { type: 'filewatch', path: directory, patterns: TASK_FILE_PATTERNS, debounceMs: this.config.debounceMs ?? DEFAULT_DEBOUNCE_MS },
+            changes => this._onChanges(changes)
+        );
+        try {
+            await this.watcher.start();
+        } catch (error: any) {
+            logger.error(`TaskDefinitionLoader: Could not watch ${directory} for changes: ${error.message}`, { error });
+            this.watcher = undefined;
+        }
+    }
+
+    // Changes are applied one batch at a time so that two quick edits cannot interleave
+    private _onChanges(changes: FileWatchChanges): void {
+        this.applyChain = this.applyChain.then(async () => {
+            for (const filePath of changes.deleted) {
+                logger.info(`TaskDefinitionLoader: Task file ${filePath} was removed.`);
+                await this._deleteTasks(filePath, new Set());
+                await this._deleteTemplates(filePath, new Set());
+            }
+            for (const filePath of [...changes.created, ...changes.changed]) {
+                logger.info(`TaskDefinitionLoader: Reloading task file ${filePath}.`);
+                await this._applyFile(filePath);
+            }
+        }).catch((error: any) => {
+            logger.error(`TaskDefinitionLoader: Failed to apply task file changes: ${error.message}`, { error });
+        });
+    }
+
+    private async _applyFile(filePath: string): Promise<void> {
+        let contents: TaskFileContents;
+        try {
+            contents = await this._readFile(filePath);
+        } catch (error: any) {
+            // Keep the tasks from the last good version of the file running
+            logger.error(`TaskDefinitionLoader: Skipping ${filePath}: ${error.message}`, { error });
+            return;
+        }
+        await this._applyTemplates(filePath, contents.templates);
+        await this._applyTasks(filePath, contents.tasks);
+        // After the tasks, so that instances removed together with their template are gone first
+        await this._deleteTemplates(filePath, new Set(contents.templates.map(template => template.id)));
+    }
+
+    // Registers (or replaces) the file's templates; replacing one re-renders its instances
+    private async _applyTemplates(filePath: string, templates: IngestionTaskTemplate[]): Promise<void> {
+        const templateIds = new Set(this.fileTemplates.get(filePath) || []);
+        for (const template of templates) {
+            const owner = this._findOwner(this.fileTemplates, template.id);
+            if (owner && owner !== filePath) {
+                logger.error(`TaskDefinitionLoader: Template '${template.id}' in ${filePath} is already defined in ${owner}. Skipping it.`);
+                continue;
+            }
+            templateIds.add(template.id);
+            if (isDeepEqual(this.manager.getTemplate(template.id), template)) {
+                logger.debug(`TaskDefinitionLoader: Template '${template.id}' is unchanged.`);
+                continue;
+            }
+            const status = await this.manager.registerTemplate(template);
+            this._logResult(status, `registered template '${template.id}' from ${filePath}`);
+        }
+        if (templateIds.size > 0) {
+            this.fileTemplates.set(filePath, templateIds);
+        }
+    }
+
+    private async _applyTasks(filePath: string, definitions: Array<IngestionTaskDefinition | TemplateInstanceDocument>): Promise<void> {
+        const taskIds = new Set<string>();
+        for (const definition of definitions) {
+            const owner = this._findOwner(this.fileTasks, definition.id);
+            if (owner && owner !== filePath) {
+                logger.error(`TaskDefinitionLoader: Task '${definition.id}' in ${filePath} is already defined in ${owner}. Skipping it.`);
+                continue;
+            }
+            taskIds.add(definition.id);
+            if (isInstanceDocument(definition)) {
+                const status = await this.manager.instantiateTemplate(definition.template, definition.id, definition.params || {}, { enabled: definition.enabled, namespace: definition.namespace, sourceFile: filePath });
+                this._logResult(status, `applied task '${definition.id}' from template '${definition.template}' in ${filePath}`);
+            } else {
+                await this._applyDefinition(definition, filePath);
+            }
+        }
+        await this._deleteTasks(filePath, taskIds);
+        this.fileTasks.set(filePath, taskIds);
+    }
+
+    private async _readFile(filePath: string): Promise<TaskFileContents> {
+        const raw = await fs.readFile(filePath, 'utf8');
+        const parsed = yaml.load(raw);
+        if (parsed === undefined || parsed === null) {
+            return { templates: [], tasks: [] };
+        }
+        const missing = new Set<string>();
+        const documents: any[] = interpolateEnv(Array.isArray(parsed) ? parsed : [parsed], missing);
+        if (missing.size > 0) {
+            logger.warn(`TaskDefinitionLoader: ${filePath} references unset environment variables: ${Array.from(missing).join(', ')}.`);
+        }
+
+        const errors: string[] = [];
+        documents.forEach((document, index) => {
+            const label = document?.id ? `'${document.id}'` : `#${index + 1}`;
+            if (!document || typeof document !== 'object') {
+                errors.push(`Task ${label} is not an object.`);
+                return;
+            }
+            if (document.kind === 'template') {
+                // The manager validates the rest when the template is registered
+                if (!document.id) errors.push(`Template ${label} is missing 'id'.`);
+                if (!document.task || typeof document.task !== 'object') errors.push(`Template ${label} is missing 'task'.`);
+                return;
+            }
+            if (!document.id) errors.push(`Task ${label} is missing 'id'.`);
+            if (isInstanceDocument(document)) {
+                if (document.params !== undefined && (typeof document.params !== 'object' || Array.isArray(document.params))) {
+                    errors.push(`Task ${label}: 'params' must map parameter names to values.`);
+                }
+                return;
+            }
+            if (!document.name) errors.push(`Task ${label} is missing 'name'.`);
+            if (!document.source?.pluginType) errors.push(`Task ${label} is missing 'source.pluginType'.`);
+            if (!document.trigger?.type) errors.push(`Task ${label} is missing 'trigger.type'.`);
+        });
+        if (errors.length > 0) {
+            throw new Error(errors.join(' '));
+        }
+        return {
+            templates: documents
+                .filter(document => document.kind === 'template')
+                .map(({ kind, ...template }) => template as IngestionTaskTemplate),
+            // Ids are qualified with the namespace here, so that tasks are tracked under the id the manager uses.
+            // Plain tasks record their file, so that load() can tell which restored tasks lost theirs.
+            tasks: documents
+                .filter(document => document.kind !== 'template')
+                .map(document => isInstanceDocument(document)
+                    ? { ...document, id: qualifyTaskId(document.namespace, document.id) }
+                    : { enabled: true, ...document, id: qualifyTaskId(document.namespace, document.id), sourceFile: filePath }),
+        };
+    }
+
+    private async _applyDefinition(definition: IngestionTaskDefinition, filePath: string): Promise<void> {
+        const existing = this.manager.getTask(definition.id);
+        if (!existing) {
+            const status = await this.manager.scheduleTask(definition);
+            this._logResult(status, `scheduled task '${definition.id}' from ${filePath}`);
+            return;
+        }
+
+        // Settings removed from the file are cleared on the task as well
+        const updates = diffTaskDefinition(existing, definition);
+        if (Object.keys(updates).length === 0) {
+            logger.debug(`TaskDefinitionLoader: Task '${definition.id}' is unchanged.`);
+            return;
+        }
+        const status = await this.manager.updateTask(definition.id, updates);
+        this._logResult(status, `updated task '${definition.id}' (${Object.keys(updates).join(', ')}) from ${filePath}`);
+    }
+
+    // Deletes the tasks previously defined by the file that are not in keepIds
+    private async _deleteTasks(filePath: string, keepIds: Set<string>): Promise<void> {
+        const previousIds = this.fileTasks.get(filePath) || new Set<string>();
+        for (const taskId of previousIds) {
+            if (!keepIds.has(taskId)) {
+                const status = await this.manager.deleteTask(taskId);
+                this._logResult(status, `deleted task '${taskId}' (no longer defined in ${filePath})`);
+            }
+        }
+        if (keepIds.size === 0) {
+            this.fileTasks.delete(filePath);
+        }
+    }
+
+    // Deletes tasks restored from the task store whose definition was removed from the folder while the
+    // app was not running. Tasks of files that could not be read are kept until the file is fixed.
+    private async _deleteOrphanedTasks(directory: string, unreadableFiles: Set<string>): Promise<void> {
+        for (const task of this.manager.listTasks()) {
+            if (!task.sourceFile || path.dirname(task.sourceFile) !== directory || unreadableFiles.has(task.sourceFile)) {
+                continue;
+            }
+            if (!this._findOwner(this.fileTasks, task.id)) {
+                const status = await this.manager.deleteTask(task.id);
+                this._logResult(status, `deleted task '${task.id}' (no longer defined in ${task.sourceFile})`);
+            }
+        }
+    }
+
+    // Deletes the templates previously defined by the file that are not in keepIds
+    private async _deleteTemplates(filePath: string, keepIds: Set<string>): Promise<void> {
+        const previousIds = this.fileTemplates.get(filePath) || new Set<string>();
+        const remainingIds = new Set(keepIds);
+        for (const templateId of previousIds) {
+            if (keepIds.has(templateId)) {
+                continue;
+            }
+            const status = await this.manager.deleteTemplate(templateId);
+            this._logResult(status, `deleted template '${templateId}' (no longer defined in ${filePath})`);
+            if (status.code === 409) {
+                // Still in use by instances from other files; try again when this file changes next
+                remainingIds.add(templateId);
+            }
+        }
+        if (remainingIds.size === 0) {
+            this.fileTemplates.delete(filePath);
+        } else {
+            this.fileTemplates.set(filePath, remainingIds);
+        }
+    }
+
+    private _findOwner(owners: Map<string, Set<string>>, id: string): string | undefined {
+        for (const [filePath, ids] of owners) {
+            if (ids.has(id)) {
+                return filePath;
+            }
+        }
+        return undefined;
+    }
+
+    private _logResult(status: { success: boolean, message?: string, data?: any }, action: string): void {
+        if (status.success) {
+            logger.info(`TaskDefinitionLoader: ${action}.`);
+        } else {
+            logger.error(`TaskDefinitionLoader: Could not apply change (${action}): ${status.message}`, { data: status.data });
+        }
+    }
+}
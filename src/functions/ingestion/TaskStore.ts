@@ -0,0 +1,182 @@
+// src/functions/ingestion/TaskStore.ts
+
+import { ITaskStore, IngestionTaskDefinition, IngestionRunRecord, RunHistoryQuery } from './interfaces';
+import { logger } from '@godspeedsystems/core';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+export interface FileTaskStoreConfig {
+    filePath: string; // JSON file holding the persisted state, e.g. './ingestion_state/tasks.json'
+    maxRunsPerTask?: number; // Oldest run records beyond this limit are dropped (default 100)
+}
+
+// Shape of the JSON document written by FileTaskStore
+interface PersistedState {
+    tasks: { [taskId: string]: IngestionTaskDefinition };
+    runs: { [taskId: string]: IngestionRunRecord[] }; // Oldest first
+}
+
+const DEFAULT_MAX_RUNS_PER_TASK = 100;
+
+// Date fields on a task definition that need to be revived after JSON.parse
+const TASK_DATE_FIELDS: (keyof IngestionTaskDefinition)[] = ['lastRun', 'nextRun'];
+
+function cloneTask(task: IngestionTaskDefinition): IngestionTaskDefinition {
+    const clone: IngestionTaskDefinition = JSON.parse(JSON.stringify(task));
+    return reviveTaskDates(clone);
+}
+
+function reviveTaskDates(task: IngestionTaskDefinition): IngestionTaskDefinition {
+    for (const field of TASK_DATE_FIELDS) {
+        const value = task[field];
+        if (typeof value === 'string') {
+            (task as any)[field] = new Date(value);
+        }
+    }
+    return task;
+}
+
+function cloneRunRecord(record: IngestionRunRecord): IngestionRunRecord {
+    const clone: IngestionRunRecord = JSON.parse(JSON.stringify(record));
+    clone.startedAt = new Date(clone.startedAt);
+    if (clone.finishedAt) {
+        clone.finishedAt = new Date(clone.finishedAt);
+    }
+    return clone;
+}
+
+// Applies a RunHistoryQuery to a list of records stored oldest first
+function queryRunRecords(records: IngestionRunRecord[], query: RunHistoryQuery = {}): IngestionRunRecord[] {
+    let result = records.map(cloneRunRecord).reverse();
+    if (query.since) {
+        const since = new Date(query.since).getTime();
+        result = result.filter(record => record.startedAt.getTime() >= since);
+    }
+    if (query.limit !== undefined && query.limit >= 0) {
+        result = result.slice(0, query.limit);
+    }
+    return result;
+}
+
+/**
+ * Default store used by GlobalIngestionLifecycleManager. Keeps copies of the task
+ * definitions in memory only, so everything is lost when the process exits.
+ */
+export class InMemoryTaskStore implements ITaskStore {
+    private tasks: Map<string, IngestionTaskDefinition> = new Map();
+    private runs: Map<string, IngestionRunRecord[]> = new Map();
+    private maxRunsPerTask: number;
+
+    constructor(maxRunsPerTask: number = DEFAULT_MAX_RUNS_PER_TASK) {
+        this.maxRunsPerTask = maxRunsPerTask;
+    }
+
+    async loadTasks(): Promise<IngestionTaskDefinition[]> {
+        return Array.from(this.tasks.values()).map(cloneTask);
+    }
+
+    async saveTask(task: IngestionTaskDefinition): Promise<void> {
+        this.tasks.set(task.id, cloneTask(task));
+    }
+
+    async deleteTask(taskId: string): Promise<void> {
+        this.tasks.delete(taskId);
+        this.runs.delete(taskId);
+    }
+
+    async appendRunRecord(record: IngestionRunRecord): Promise<void> {
+        const records = this.runs.get(record.taskId) || [];
+        records.push(cloneRunRecord(record));
+        this.runs.set(record.taskId, records.slice(-this.maxRunsPerTask));
+    }
+
+    async getRunRecords(taskId: string, query?: RunHistoryQuery): Promise<IngestionRunRecord[]> {
+        return queryRunRecords(this.runs.get(taskId) || [], query);
+    }
+}
+
+/**
+ * Persists task definitions and their run history to a single JSON file.
+ * Writes are serialized and go through a temporary file followed by a rename, so a crash
+ * in the middle of a write never leaves a truncated state file behind. A state file that exists but
+ * cannot be read or parsed is never overwritten: every call fails until it is repaired or removed.
+ */
+export class FileTaskStore implements ITaskStore {
+    private config: FileTaskStoreConfig;
+    private state: PersistedState | undefined;
+    private writeChain: Promise<void> = Promise.resolve();
+
+    constructor(config: FileTaskStoreConfig) {
+        if (!config?.filePath) {
+            throw new Error("FileTaskStore: 'filePath' is required in the configuration.");
+        }
+        this.config = config;
+        logger.info(`FileTaskStore created. State file: ${this.config.filePath}`);
+    }
+
+    async loadTasks(): Promise<IngestionTaskDefinition[]> {
+        const state = await this.getState();
+        return Object.values(state.tasks).map(cloneTask);
+    }
+
+    async saveTask(task: IngestionTaskDefinition): Promise<void> {
+        const state = await this.getState();
+        state.tasks[task.id] = cloneTask(task);
+        await this.flush();
+    }
+
+    async deleteTask(taskId: string): Promise<void> {
+        const state = await this.getState();
+        if (!state.tasks[taskId] && !state.runs[taskId]) {
+            return;
+        }
+        delete state.tasks[taskId];
+        delete state.runs[taskId];
+        await this.flush();
+    }
+
+    async appendRunRecord(record: IngestionRunRecord): Promise<void> {
+        const state = await this.getState();
+        const records = state.runs[record.taskId] || [];
+        records.push(cloneRunRecord(record));
+        state.runs[record.taskId] = records.slice(-(this.config.maxRunsPerTask ?? DEFAULT_MAX_RUNS_PER_TASK));
+        await this.flush();
+    }
+
+    async getRunRecords(taskId: string, query?: RunHistoryQuery): Promise<IngestionRunRecord[]> {
+        const state = await this.getState();
+        return queryRunRecords(state.runs[taskId] || [], query);
+    }
+
+    private async getState(): Promise<PersistedState> {
+        if (this.state) {
+            return this.state;
+        }
+        try {
+            const raw = await fs.readFile(this.config.filePath, 'utf8');
+            const parsed = JSON.parse(raw);
+            this.state = { tasks: parsed?.tasks || {}, runs: parsed?.runs || {} };
+            logger.info(`FileTaskStore: Loaded ${Object.keys(this.state.tasks).length} tasks from ${this.config.filePath}.`);
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') {
+                // Starting empty would replace every persisted task on the next write
+                logger.error(`FileTaskStore: Could not read state file ${this.config.filePath}: ${error.message}. Nothing is written to it until it is repaired or removed.`, { error });
+                throw new Error(`FileTaskStore: State file ${this.config.filePath} is unreadable: ${error.message}`);
+            }
+            this.state = { tasks: {}, runs: {} };
+        }
+        return this.state;
+    }
+
+    private flush(): Promise<void> {
+        // Chain writes so that two concurrent saves never interleave on disk
+        const write = this.writeChain.then(async () => {
+            const tmpPath = `${this.config.filePath}.tmp`;
+            await fs.mkdir(path.dirname(this.config.filePath), { recursive: true });
+            await fs.writeFile(tmpPath, JSON.stringify(this.state, null, 2), 'utf8');
+            await fs.rename(tmpPath, this.config.filePath);
+        });
+        this.writeChain = write.catch(() => undefined);
+        return write;
+    }
+}
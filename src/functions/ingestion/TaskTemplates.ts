@@ -0,0 +1,137 @@
+// src/functions/ingestion/TaskTemplates.ts
+
+import { IngestionTaskDefinition, IngestionTaskTemplate } from './interfaces';
+import { validateAgainstSchema } from './ConfigSchema';
+
+// Runtime state owned by the manager; never taken from (or cleared by) a task file or template
+export const RUNTIME_FIELDS = ['currentStatus', 'lastRun', 'lastRunStatus', 'nextRun'];
+const PARAM_PATTERN = /\$\{params\.([A-Za-z_][A-Za-z0-9_]*)\}/g;
+const WHOLE_PARAM_PATTERN = /^\$\{params\.([A-Za-z_][A-Za-z0-9_]*)\}$/;
+
+// Replaces ${params.NAME} in every string of the value. A string that is only a reference takes the
+// parameter's value as is, so a number or list parameter keeps its type.
+function substituteParams(value: any, params: { [name: string]: any }): any {
+    if (typeof value === 'string') {
+        const whole = value.match(WHOLE_PARAM_PATTERN);
+        if (whole) {
+            return params[whole[1]];
+        }
+        return value.replace(PARAM_PATTERN, (_match, name: string) => params[name] === undefined ? '' : String(params[name]));
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => substituteParams(item, params));
+    }
+    if (value && typeof value === 'object') {
+        const result: any = {};
+        for (const [key, item] of Object.entries(value)) {
+            result[key] = substituteParams(item, params);
+        }
+        return result;
+    }
+    return value;
+}
+
+function collectParamReferences(value: any, names: Set<string>): Set<string> {
+    if (typeof value === 'string') {
+        for (const match of value.matchAll(PARAM_PATTERN)) {
+            names.add(match[1]);
+        }
+    } else if (value && typeof value === 'object') {
+        Object.values(value).forEach(item => collectParamReferences(item, names));
+    }
+    return names;
+}
+
+// Checks a template before it is registered and returns every problem as a readable message
+export function validateTemplate(template: IngestionTaskTemplate): string[] {
+    const errors: string[] = [];
+    if (!template?.id) {
+        return ["Template is missing 'id'."];
+    }
+    if (!template.task || typeof template.task !== 'object') {
+        return [`Template '${template.id}' is missing 'task'.`];
+    }
+    if (!template.task.source?.pluginType) errors.push(`Template '${template.id}' is missing 'task.source.pluginType'.`);
+    if (!template.task.trigger?.type) errors.push(`Template '${template.id}' is missing 'task.trigger.type'.`);
+    if (['id', 'namespace', 'template', 'sourceFile'].some(key => key in template.task)) {
+        errors.push(`Template '${template.id}': 'task' must not set 'id', 'namespace', 'template' or 'sourceFile'; they come from the instance.`);
+    }
+
+    const declared = template.parameters?.properties || {};
+    for (const name of collectParamReferences(template.task, new Set())) {
+        if (!(name in declared)) {
+            errors.push(`Template '${template.id}' references undeclared parameter '${name}'.`);
+        }
+    }
+    for (const [name, parameter] of Object.entries(declared)) {
+        if (parameter.default !== undefined) {
+            errors.push(...validateAgainstSchema(parameter, parameter.default, `parameters.${name}.default`));
+        }
+    }
+    return errors;
+}
+
+/**
+ * Fills in defaults for the parameters an instance leaves out and validates the result against the
+ * template's parameter schema. Parameters the template does not declare are rejected.
+ */
+export function resolveTemplateParams(template: IngestionTaskTemplate, params: { [name: string]: any } = {}): { params: { [name: string]: any }, errors: string[] } {
+    const resolved: { [name: string]: any } = {};
+    for (const [name, parameter] of Object.entries(template.parameters?.properties || {})) {
+        if (parameter.default !== undefined) {
+            resolved[name] = JSON.parse(JSON.stringify(parameter.default));
+        }
+    }
+    Object.assign(resolved, params);
+    const errors = validateAgainstSchema({ type: 'object', additionalProperties: false, ...template.parameters }, resolved, 'params');
+    return { params: resolved, errors };
+}
+
+// Renders the task definition of an instance. params must already be resolved; instanceParams is
+// what the instance itself set and is kept on the task so that default changes still reach it.
+export function renderTemplate(template: IngestionTaskTemplate, taskId: string, params: { [name: string]: any }, instanceParams: { [name: string]: any }): IngestionTaskDefinition {
+    const rendered = substituteParams(template.task, params);
+    return {
+        enabled: true,
+        ...rendered,
+        id: taskId,
+        template: { id: template.id, params: instanceParams },
+    };
+}
+
+// Compares two settings values structurally. Key order does not matter and keys set to undefined count
+// as absent; a Date equals its ISO string, since persisted and cloned tasks hold dates as strings.
+export function isDeepEqual(a: any, b: any): boolean {
+    const left = a instanceof Date ? a.toISOString() : a;
+    const right = b instanceof Date ? b.toISOString() : b;
+    if (left === right) {
+        return true;
+    }
+    if (!left || !right || typeof left !== 'object' || typeof right !== 'object' || Array.isArray(left) !== Array.isArray(right)) {
+        return false;
+    }
+    if (Array.isArray(left)) {
+        return left.length === right.length && left.every((item, index) => isDeepEqual(item, right[index]));
+    }
+    const definedKeys = (value: any) => Object.keys(value).filter(key => value[key] !== undefined);
+    const leftKeys = definedKeys(left);
+    const rightKeys = definedKeys(right);
+    return leftKeys.length === rightKeys.length && leftKeys.every(key => key in right && isDeepEqual(left[key], right[key]));
+}
+
+// Settings of desired that differ from existing, with settings missing from desired cleared (set to undefined).
+// Run state is left out, so the result can be passed to updateTask as is.
+export function diffTaskDefinition(existing: IngestionTaskDefinition, desired: IngestionTaskDefinition): Partial<IngestionTaskDefinition> {
+    const updates: any = {};
+    for (const [key, value] of Object.entries(desired)) {
+        if (!RUNTIME_FIELDS.includes(key) && !isDeepEqual(value, (existing as any)[key])) {
+            updates[key] = value;
+        }
+    }
+    for (const key of Object.keys(existing)) {
+        if (!RUNTIME_FIELDS.includes(key) && !(key in desired) && (existing as any)[key] !== undefined) {
+            updates[key] = undefined;
+        }
+    }
+    return updates;
+}
@@ -0,0 +1,172 @@
+// src/functions/ingestion/TransformerRouter.ts
+
+import { runLogger as logger } from './RunContext';
+import * as path from 'path';
+import { IngestionData, IngestionDataTransformer, TransformerStep } from './interfaces';
+import { globToRegExp } from './FileWatcher';
+
+// Name under which the lifecycle manager registers the routing transformer
+export const ROUTER_TRANSFORMER_NAME = 'route';
+
+// Every condition that is set must hold for an item to take the route
+export interface RouteCondition {
+    mimeType?: string | string[]; // metadata.mimeType, wildcards allowed, e.g. 'text/*'
+    extension?: string | string[]; // Extension of metadata.filename, metadata.relativePath or url, e.g. '.pdf' or 'pdf'
+    metadata?: { [path: string]: any }; // Dotted metadata path -> expected value, or a list of accepted values
+}
+
+export interface TransformerRoute {
+    name?: string; // Used in logs only
+    when: RouteCondition;
+    transformers: TransformerStep[]; // Sub-pipeline for the matching items; an empty list passes them through
+}
+
+// params of a 'route' step in IngestionTaskDefinition.transformers. The step returns its items grouped
+// by route, not in input order (see createRoutingTransformer).
+export interface RouterParams {
+    routes: TransformerRoute[]; // Checked in order; an item takes the first route it matches
+    default?: TransformerStep[]; // Sub-pipeline for items that match no route; they pass through unchanged without one
+}
+
+const toList = (value: string | string[] | undefined): string[] => value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+function getItemExtension(item: IngestionData): string | undefined {
+    const candidates = [item.metadata?.filename, item.metadata?.relativePath, item.url];
+    for (const candidate of candidates) {
+        if (typeof candidate !== 'string' || candidate.length === 0) {
+            continue;
+        }
+        let name = candidate;
+        if (candidate === item.url) {
+            try {
+                name = new URL(candidate).pathname;
+            } catch {
+                // Not an absolute URL; use it as it is
+            }
+        }
+        const extension = path.posix.extname(name).toLowerCase();
+        if (extension) {
+            return extension;
+        }
+    }
+    return undefined;
+}
+
+function getMetadataValue(item: IngestionData, dottedPath: string): any {
+    return dottedPath.split('.').reduce((value: any, key) => (value === undefined || value === null ? undefined : value[key]), item.metadata);
+}
+
+function matchesRoute(item: IngestionData, condition: RouteCondition): boolean {
+    if (condition.mimeType !== undefined) {
+        // Parameters such as '; charset=utf-8' are not part of the match
+        const mimeType = String(item.metadata?.mimeType ?? '').split(';')[0].trim().toLowerCase();
+        if (!mimeType || !toList(condition.mimeType).some(pattern => globToRegExp(pattern.toLowerCase()).test(mimeType))) {
+            return false;
+        }
+    }
+    if (condition.extension !== undefined) {
+        const extension = getItemExtension(item);
+        const accepted = toList(condition.extension).map(value => (value.startsWith('.') ? value : `.${value}`).toLowerCase());
+        if (!extension || !accepted.includes(extension)) {
+            return false;
+        }
+    }
+    if (condition.metadata !== undefined) {
+        for (const [dottedPath, expected] of Object.entries(condition.metadata)) {
+            const actual = getMetadataValue(item, dottedPath);
+            if (Array.isArray(expected) ? !expected.includes(actual) : actual !== expected) {
+                return false;
+            }
+        }
+    }
+    return true;
+}
+
+/**
+ * Checks the params of a 'route' step and returns every problem as a readable message.
+ * isRegistered tells whether a transformer name used in a sub-pipeline is known.
+ */
+export function validateRouterParams(params: any, isRegistered: (name: string) => boolean, paramsPath: string = 'params'): string[] {
+    const errors: string[] = [];
+    if (!params || typeof params !== 'object' || !Array.isArray(params.routes)) {
+        return [`${paramsPath}.routes must be a list of { when, transformers } routes.`];
+    }
+    const checkSteps = (steps: any, stepsPath: string) => {
+        if (!Array.isArray(steps)) {
+            errors.push(`${stepsPath} must be a list of { name, params } steps.`);
+            return;
+        }
+        steps.forEach((step: any, index: number) => {
+            if (!step?.name) {
+                errors.push(`${stepsPath}[${index}].name is required.`);
+            } else if (!isRegistered(step.name)) {
+                errors.push(`${stepsPath}[${index}]: transformer '${step.name}' is not registered.`);
+            } else if (step.name === ROUTER_TRANSFORMER_NAME) {
+                errors.push(...validateRouterParams(step.params, isRegistered, `${stepsPath}[${index}].params`));
+            }
+        });
+    };
+
+    params.routes.forEach((route: any, index: number) => {
+        const routePath = `${paramsPath}.routes[${index}]`;
+        const when = route?.when;
+        if (!when || typeof when !== 'object' || (when.mimeType === undefined && when.extension === undefined && when.metadata === undefined)) {
+            errors.push(`${routePath}.when must set at least one of mimeType, extension or metadata.`);
+        } else if (when.metadata !== undefined && (typeof when.metadata !== 'object' || Array.isArray(when.metadata))) {
+            errors.push(`${routePath}.when.metadata must map metadata paths to expected values.`);
+        }
+        checkSteps(route?.transformers, `${routePath}.transformers`);
+    });
+    if (params.default !== undefined) {
+        checkSteps(params.default, `${paramsPath}.default`);
+    }
+    return errors;
+}
+
+/**
+ * Creates the routing transformer. Each item goes to the sub-pipeline of the first route it matches
+ * (or to the default one), and every sub-pipeline runs once on its share of the items.
+ * The input order is not kept: the results come back grouped by route, in the order the routes are
+ * listed, followed by the default route's results. Within a route, items stay in the order its
+ * sub-pipeline returns them. Steps after the router must not rely on the source's item order.
+ * Transformer names are looked up when the step runs, so routes may use transformers registered
+ * after the router, including another router.
+ */
+export function createRoutingTransformer(lookup: (name: string) => IngestionDataTransformer | undefined): IngestionDataTransformer {
+    const runPipeline = async (steps: TransformerStep[], items: IngestionData[], initialPayload: any): Promise<IngestionData[]> => {
+        let data = items;
+        for (const step of steps) {
+            const transformer = lookup(step.name);
+            if (!transformer) {
+                throw new Error(`Transformer '${step.name}' not registered.`);
+            }
+            data = await transformer(data, initialPayload, step.params);
+        }
+        return data;
+    };
+
+    return async (rawData: any[], initialPayload?: any, params?: RouterParams): Promise<IngestionData[]> => {
+        const routes = params?.routes || [];
+        const branches: IngestionData[][] = routes.map(() => []);
+        const unmatched: IngestionData[] = [];
+        for (const item of rawData as IngestionData[]) {
+            const routeIndex = routes.findIndex(route => matchesRoute(item, route.when));
+            (routeIndex === -1 ? unmatched : branches[routeIndex]).push(item);
+        }
+
+        const results: IngestionData[] = [];
+        for (let index = 0; index < routes.length; index++) {
+            if (branches[index].length === 0) {
+                continue;
+            }
+            const label = routes[index].name || `#${index + 1}`;
+            logger.info(`TransformerRouter: Route ${label} received ${branches[index].length} items.`);
+            results.push(...await runPipeline(routes[index].transformers || [], branches[index], initialPayload));
+        }
+        if (unmatched.length > 0) {
+            logger.info(`TransformerRouter: ${unmatched.length} items matched no route${params?.default ? ', using the default route' : ' and pass through unchanged'}.`);
+            results.push(...await runPipeline(params?.default || [], unmatched, initialPayload));
+        }
+        return results;
+    };
+}
@@ -0,0 +1,156 @@
+// src/functions/ingestion/WorkerPool.ts
+
+import { logger } from '@godspeedsystems/core';
+import { IngestionEvents } from './interfaces';
+import { emitIngestionEvent } from './RunContext';
+import { IngestionEventBus } from './IngestionEventBus';
+
+interface QueuedJob {
+    taskId: string;
+    namespace?: string;
+    priority: number;
+    sequence: number; // Keeps FIFO order between jobs of equal priority
+    enqueuedAt: number;
+    start: () => void;
+}
+
+export interface SubmitOptions {
+    namespace?: string; // Counts the job toward the namespace's limit
+    silent?: boolean; // Publishes no queue events for the job (e.g. dry runs); it still takes a slot
+}
+
+export interface WorkerPoolStats {
+    concurrency: number;
+    active: number;
+    queueDepth: number;
+}
+
+/**
+ * Bounded pool that runs ingestion jobs with at most `concurrency` of them in flight.
+ * Jobs that cannot start immediately wait in a priority queue (highest priority first).
+ * A namespace can be limited to fewer slots; its queued jobs are then passed over by jobs of
+ * other namespaces while it is at its limit.
+ * Queue depth and wait times are published on the ingestion event bus, except for jobs submitted
+ * as silent.
+ */
+export class WorkerPool {
+    private concurrency: number;
+    private active: number = 0;
+    private queue: QueuedJob[] = [];
+    private sequence: number = 0;
+    private eventBus: IngestionEventBus;
+    private namespaceLimits: Map<string, number> = new Map();
+    private activeByNamespace: Map<string, number> = new Map();
+
+    constructor(concurrency: number, eventBus: IngestionEventBus) {
+        this.concurrency = Math.max(1, Math.floor(concurrency));
+        this.eventBus = eventBus;
+        logger.info(`WorkerPool created with concurrency ${this.concurrency}.`);
+    }
+
+    public submit<T>(taskId: string, priority: number, job: () => Promise<T>, options: SubmitOptions = {}): Promise<T> {
+        const { namespace, silent } = options;
+        return new Promise<T>((resolve, reject) => {
+            const queuedJob: QueuedJob = {
+                taskId,
+                namespace,
+                priority,
+                sequence: this.sequence++,
+                enqueuedAt: Date.now(),
+                start: () => {
+                    const waitMs = Date.now() - queuedJob.enqueuedAt;
+                    this.active++;
+                    this._adjustNamespaceActive(namespace, 1);
+                    if (!silent) {
+                        emitIngestionEvent(this.eventBus, IngestionEvents.TASK_DEQUEUED, taskId, { waitMs, priority });
+                        this._emitQueueUpdated();
+                    }
+                    logger.debug(`WorkerPool: Starting job for task '${taskId}' after waiting ${waitMs}ms (priority ${priority}).`);
+                    job().then(resolve, reject).finally(() => {
+                        this.active--;
+                        this._adjustNamespaceActive(namespace, -1);
+                        if (!silent) {
+                            this._emitQueueUpdated();
+                        }
+                        this._drain();
+                    });
+                },
+            };
+            this._enqueue(queuedJob);
+            if (!silent) {
+                emitIngestionEvent(this.eventBus, IngestionEvents.TASK_QUEUED, taskId, { priority, queueDepth: this.queue.length });
+                this._emitQueueUpdated();
+            }
+            this._drain();
+        });
+    }
+
+    public setConcurrency(concurrency: number): void {
+        this.concurrency = Math.max(1, Math.floor(concurrency));
+        logger.info(`WorkerPool concurrency set to ${this.concurrency}.`);
+        this._drain();
+    }
+
+    // Limits the jobs of a namespace that run at once; undefined removes the limit
+    public setNamespaceLimit(namespace: string, limit: number | undefined): void {
+        if (limit === undefined) {
+            this.namespaceLimits.delete(namespace);
+        } else {
+            this.namespaceLimits.set(namespace, Math.max(1, Math.floor(limit)));
+        }
+        this._drain();
+    }
+
+    // True while a job for the task is waiting for a free slot
+    public isQueued(taskId: string): boolean {
+        return this.queue.some(job => job.taskId === taskId);
+    }
+
+    public getStats(): WorkerPoolStats {
+        return { concurrency: this.concurrency, active: this.active, queueDepth: this.queue.length };
+    }
+
+    // Inserts the job behind every job with the same or a higher priority
+    private _enqueue(job: QueuedJob): void {
+        const index = this.queue.findIndex(queued => queued.priority < job.priority);
+        if (index === -1) {
+            this.queue.push(job);
+        } else {
+            this.queue.splice(index, 0, job);
+        }
+    }
+
+    private _drain(): void {
+        let index = 0;
+        while (this.active < this.concurrency && index < this.queue.length) {
+            const next = this.queue[index];
+            if (!this._hasNamespaceCapacity(next.namespace)) {
+                index++;
+                continue;
+            }
+            this.queue.splice(index, 1);
+            next.start();
+        }
+    }
+
+    private _hasNamespaceCapacity(namespace: string | undefined): boolean {
+        const limit = namespace === undefined ? undefined : this.namespaceLimits.get(namespace);
+        return limit === undefined || (this.activeByNamespace.get(namespace!) || 0) < limit;
+    }
+
+    private _adjustNamespaceActive(namespace: string | undefined, delta: number): void {
+        if (namespace === undefined) {
+            return;
+        }
+        const active = (this.activeByNamespace.get(namespace) || 0) + delta;
+        if (active > 0) {
+            this.activeByNamespace.set(namespace, active);
+        } else {
+            this.activeByNamespace.delete(namespace);
+        }
+    }
+
+    private _emitQueueUpdated(): void {
+        emitIngestionEvent(this.eventBus, IngestionEvents.QUEUE_UPDATED, undefined, this.getStats());
+    }
+}
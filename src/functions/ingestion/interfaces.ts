@@ -1,7 +1,8 @@
 // C:\Users\SOHAM\Desktop\crawler\test-crawler\src\functions\ingestion\interfaces.ts
 
 import { GSStatus, GSContext } from '@godspeedsystems/core';
-import { EventEmitter } from 'events';
+import { IngestionEventBus } from './IngestionEventBus';
+import { JsonSchema } from './ConfigSchema';
 
 // --- Ingestion Data Structures ---
 export interface IngestionData {
@@ -18,14 +19,22 @@ export interface IngestionData {
     [key: string]: any; // Allows for additional arbitrary properties
 }
 
-export type IngestionDataTransformer = (rawData: any[], initialPayload?: any) => Promise<IngestionData[]>;
+// 'params' are the step's params from the task's transformers chain (or task.transformerParams)
+export type IngestionDataTransformer = (rawData: any[], initialPayload?: any, params?: any) => Promise<IngestionData[]>;
+
+// One step of a task's transformer chain, referring to a transformer registered by name
+export interface TransformerStep {
+    name: string;
+    params?: any;
+}
 
 
 // --- Plugin Interfaces ---
 
 export interface GSDataSource {
     // FIX: Modified the execute method signature to accept initialPayload
-    execute(ctx: GSContext, initialPayload?: any): Promise<GSStatus>;
+    // `signal` is aborted when the run is cancelled or times out; long-running sources should stop early
+    execute(ctx: GSContext, initialPayload?: any, signal?: AbortSignal): Promise<GSStatus>;
 
     initClient(): Promise<any>;
 
@@ -34,22 +43,61 @@ export interface GSDataSource {
 
 export interface IDestinationPlugin {
     init(config: any): Promise<void>; // Initialize with destination-specific config
-    processData(data: IngestionData[]): Promise<GSStatus>; // Process a batch of ingested data
+    processData(data: IngestionData[], signal?: AbortSignal): Promise<GSStatus>; // Process a batch of ingested data
 }
 
+// A destination plugin class; the manager creates a fresh instance for every run
+export type DestinationConstructor = new () => IDestinationPlugin;
+
 
 // --- Task Definition Interfaces ---
 
-export type TriggerType = 'cron' | 'webhook' | 'manual';
+export type TriggerType = 'cron' | 'webhook' | 'manual' | 'dependency' | 'interval' | 'oneshot' | 'filewatch';
 
 export interface BaseTrigger {
     type: TriggerType;
     enabled?: boolean;
 }
 
+// What to do with scheduled cron runs that were missed (downtime, late ticks):
+// 'none' skips them, 'latest' runs the most recent one once, 'all' runs each of them (up to maxCatchUpRuns).
+export type CronCatchUpPolicy = 'none' | 'latest' | 'all';
+
 export interface CronTrigger extends BaseTrigger {
     type: 'cron';
     expression: string; // Cron expression, e.g., "0 0 * * *"
+    timezone?: string; // IANA timezone the expression is evaluated in, e.g. "Asia/Kolkata" (default: server timezone)
+    catchUp?: CronCatchUpPolicy; // Defaults to 'none'
+    maxCatchUpRuns?: number; // Only for catchUp 'all': most recent missed runs to keep (default 10)
+}
+
+// Runs the task every `everyMs` milliseconds. With `startAt` the runs are aligned to startAt + n * everyMs,
+// otherwise the first run happens `everyMs` after the trigger is set up. No runs are started after `endAt`.
+// Interval and one-shot triggers are always driven by the manager's own timers.
+export interface IntervalTrigger extends BaseTrigger {
+    type: 'interval';
+    everyMs: number;
+    startAt?: Date | string; // ISO timestamp, e.g. "2026-11-01T03:00:00Z"
+    endAt?: Date | string;
+}
+
+// Runs the task once at `runAt`. If the time has already passed when the trigger is set up and the
+// task never ran, it runs right away. The task is disabled after a successful run.
+export interface OneShotTrigger extends BaseTrigger {
+    type: 'oneshot';
+    runAt: Date | string;
+}
+
+// Runs the task when files in a local directory are created, changed or deleted. Bursts of changes are
+// debounced into a single run whose initialPayload is { fileWatch: { created, changed, deleted } } (absolute paths).
+// Use concurrencyPolicy 'queue' so that changes arriving during a run are not dropped.
+export interface FileWatchTrigger extends BaseTrigger {
+    type: 'filewatch';
+    path: string; // Directory to watch
+    patterns?: string[]; // Globs to include, e.g. ["*.csv", "exports/**/*.json"] (default: every file)
+    ignore?: string[]; // Globs to exclude, e.g. ["*.tmp"]
+    recursive?: boolean; // Also watch subdirectories (default false)
+    debounceMs?: number; // Quiet period before a batch of changes triggers a run (default 1000)
 }
 
 export interface WebhookTrigger extends BaseTrigger {
@@ -62,18 +110,54 @@ export interface ManualTrigger extends BaseTrigger {
     // No specific properties needed for manual trigger other than 'type'
 }
 
-export type IngestionTrigger = CronTrigger | WebhookTrigger | ManualTrigger;
+// Runs the task once every upstream task has finished with an outcome matching 'on'
+// ('success' by default, 'failure' or 'always'). Cycles are rejected by scheduleTask/updateTask.
+export type DependencyCondition = 'success' | 'failure' | 'always';
+
+export interface DependencyTrigger extends BaseTrigger {
+    type: 'dependency';
+    dependsOn: string[]; // Ids of the upstream tasks, in the task's own namespace ('fetch' or 'team-a/fetch' for a team-a task)
+    on?: DependencyCondition;
+}
+
+export type IngestionTrigger = CronTrigger | IntervalTrigger | OneShotTrigger | FileWatchTrigger | WebhookTrigger | ManualTrigger | DependencyTrigger;
 
 export enum IngestionTaskStatus {
     SCHEDULED = 'SCHEDULED',
     RUNNING = 'RUNNING',
     COMPLETED = 'COMPLETED',
     FAILED = 'FAILED',
+    PARTIALLY_COMPLETED = 'PARTIALLY_COMPLETED', // Some, but not all, destinations processed the data
+    CANCELLED = 'CANCELLED', // Stopped by cancelRun() or by the task's timeoutMs
     DISABLED = 'DISABLED',
 }
 
+// How a trigger is handled while a previous run of the same task is still in progress:
+// 'skip' drops the trigger, 'queue' waits for the active run to finish, 'replace' supersedes
+// the active run and 'allow' runs both side by side on separate source/destination instances.
+export type ConcurrencyPolicy = 'skip' | 'queue' | 'replace' | 'allow';
+
+export type BackoffType = 'fixed' | 'linear' | 'exponential';
+
+export interface RetryPolicy {
+    maxAttempts: number; // Total number of attempts, including the first one
+    backoff?: BackoffType; // Defaults to 'exponential'
+    initialDelayMs?: number; // Delay before the second attempt (default 1000)
+    maxDelayMs?: number; // Upper bound for any delay (default 60000)
+    // Failed statuses with one of these codes are retried. When omitted, 5xx, 408, 429 and
+    // unhandled errors are retried; other 4xx failures are treated as permanent.
+    retryableStatusCodes?: number[];
+}
+
+export interface IngestionDestinationDefinition {
+    pluginType: string; // e.g., 'filesystem', 'database', 'sftp'
+    config: any; // Destination-specific configuration
+    name?: string; // Identifies the destination in run results; defaults to the pluginType (suffixed when repeated)
+}
+
 export interface IngestionTaskDefinition {
-    id: string; // Unique ID for the ingestion task (UUID)
+    id: string; // Unique ID for the ingestion task (UUID), qualified with its namespace, e.g. 'team-a/daily-crawl'
+    namespace?: string; // Team or tenant owning the task (default 'default'); see NamespaceConfig
     name: string; // Human-readable name
     description?: string;
     enabled: boolean; // Whether the task is active or not
@@ -82,61 +166,303 @@ export interface IngestionTaskDefinition {
         pluginType: string; // e.g., 's3', 'ftp', 'api'
         config: any; // Source-specific configuration
     };
-    destination?: { // Destination is optional (e.g., if only transforming data)
-        pluginType: string; // e.g., 'filesystem', 'database', 'sftp'
-        config: any; // Destination-specific configuration
-    };
+    destination?: IngestionDestinationDefinition; // Destination is optional (e.g., if only transforming data)
+    // Further destinations that receive the same transformed data, e.g. the file system for auditing and an API.
+    // 'destination' (when set) is processed as the first of them.
+    destinations?: IngestionDestinationDefinition[];
     // Optional additional properties for task management
     currentStatus?: IngestionTaskStatus;
     lastRun?: Date;
     lastRunStatus?: GSStatus;
-    nextRun?: Date; // For cron jobs, calculated next run time
+    nextRun?: Date; // For cron, interval and one-shot tasks, calculated next run time
     // Any custom parameters or configurations for the transformer function itself
+    // (passed to the source's registered transformer when no 'transformers' chain is given)
     transformerParams?: any;
+    // Named transformers run in order, each on the previous step's output. Replaces the source's transformer.
+    transformers?: TransformerStep[];
+    concurrencyPolicy?: ConcurrencyPolicy; // Defaults to 'skip'
+    priority?: number; // Higher priority runs leave the worker pool queue first (default 0)
+    retry?: RetryPolicy; // Without a policy a failed run is not retried
+    timeoutMs?: number; // A run (including its retries) still going after this long is cancelled
+    template?: TaskTemplateReference; // Set on tasks created from a template
+    sourceFile?: string; // Task file the definition was loaded from (set by TaskDefinitionLoader)
+}
+
+
+// --- Run History ---
+// Counters and per-stage timings collected by the orchestrator for a single execution
+export interface IngestionRunMetrics {
+    itemsFetched: number;
+    itemsTransformed: number;
+    itemsProcessed: number;
+    stageDurationsMs: {
+        fetch?: number; // initClient + execute on the source
+        transform?: number;
+        process?: number; // destination processData
+    };
+}
+
+// Outcome of processData on one destination of a run
+export interface DestinationResult {
+    name: string;
+    pluginType: string;
+    success: boolean;
+    code?: number;
+    message?: string;
+    durationMs: number;
+}
+
+export interface IngestionRunRecord extends IngestionRunMetrics {
+    runId: string;
+    taskId: string;
+    triggerType: TriggerType;
+    attempt: number; // 1 for the first attempt; retries of the same run share its runId
+    status: IngestionTaskStatus; // Final status of the run (COMPLETED, PARTIALLY_COMPLETED, FAILED or CANCELLED)
+    destinationResults?: DestinationResult[]; // One entry per destination that was called
+    startedAt: Date;
+    finishedAt?: Date;
+    error?: {
+        message: string;
+        code?: number;
+        data?: any;
+    };
+}
+
+export interface RunHistoryQuery {
+    limit?: number; // Maximum number of records to return (most recent first)
+    since?: Date; // Only return runs started at or after this time
+}
+
+
+// --- Dry Run ---
+export interface ManualTriggerOptions {
+    // Runs the source and the transformer chain but no destination, and returns a DryRunPreview.
+    // Dry runs work on disabled tasks and leave the task status, run history and events untouched.
+    dryRun?: boolean;
+    sampleSize?: number; // Number of transformed items included in the preview (default 5)
+    maxContentLength?: number; // Content of sampled items is cut to this many characters (default 500)
+}
+
+export interface DryRunSampleItem extends IngestionData {
+    contentLength: number; // Length of the full content (bytes for Buffers, characters otherwise)
+    contentTruncated: boolean;
+}
+
+// Returned in the status data of a dry run
+export interface DryRunPreview extends IngestionRunMetrics {
+    dryRun: true;
+    destinations: string[]; // Destinations that would have received the data
+    idsToWrite: string[];
+    idsToDelete: string[]; // Items with metadata.changeType 'removed'
+    sample: DryRunSampleItem[];
+}
+
+
+// --- Task Templates ---
+// A task definition shared by many tasks that differ only in a few typed parameters,
+// e.g. one Git crawl template instantiated once per repository.
+export interface IngestionTaskTemplate {
+    id: string;
+    name?: string;
+    description?: string;
+    // Object schema of the parameters (see ConfigSchema). A property's 'default' is used when an instance leaves it out.
+    parameters: JsonSchema;
+    // Definition of every instance. Strings may reference parameters as ${params.NAME}; a string that is only
+    // such a reference takes the parameter's value as is (e.g. a number). 'enabled' is the default for new instances.
+    task: Omit<IngestionTaskDefinition, 'id' | 'namespace' | 'template' | 'sourceFile' | 'currentStatus' | 'lastRun' | 'lastRunStatus' | 'nextRun'>;
+}
+
+export interface TaskTemplateReference {
+    id: string; // Template id
+    params: { [name: string]: any }; // Parameters as given for the instance, without defaults
+}
+
+// Settings of an instance that do not come from the template; kept when the template changes
+export interface TemplateInstanceOptions {
+    enabled?: boolean; // Defaults to the template's 'enabled' for a new instance
+    namespace?: string;
+    sourceFile?: string;
+}
+
+
+// --- Task Persistence ---
+// A task store keeps task definitions (including runtime state such as lastRun and currentStatus)
+// across restarts. The manager writes through to it on every change and reloads it in init().
+export interface ITaskStore {
+    loadTasks(): Promise<IngestionTaskDefinition[]>;
+    saveTask(task: IngestionTaskDefinition): Promise<void>;
+    deleteTask(taskId: string): Promise<void>; // Also removes the task's run history
+    appendRunRecord(record: IngestionRunRecord): Promise<void>;
+    getRunRecords(taskId: string, query?: RunHistoryQuery): Promise<IngestionRunRecord[]>; // Most recent first
+}
+
+export interface IngestionManagerOptions {
+    taskStore?: ITaskStore; // Defaults to an in-memory store (state is lost on restart)
+    maxConcurrentRuns?: number; // Size of the worker pool shared by all task runs (default 4)
+    // When true, start() arms timers for cron tasks instead of relying on an external Godspeed cron
+    // event calling triggerAllEnabledCronTasks() (default false)
+    internalScheduler?: boolean;
+    contextFactory?: () => GSContext; // Builds the ctx for internally triggered runs (default: a minimal context)
+    namespaces?: { [namespace: string]: NamespaceConfig }; // Limits per namespace; namespaces not listed have none
+}
+
+// --- Namespaces ---
+// Several teams can share one manager: a task's id is qualified with its namespace ('team-a/daily-crawl'),
+// so ids only need to be unique within a namespace and run history is kept per qualified id.
+// Dependency triggers only reference tasks of their own namespace. Webhook endpoint ids are shared by all
+// namespaces; triggerWebhookTask takes a namespace to limit a call to one of them.
+export interface NamespaceConfig {
+    maxConcurrentRuns?: number; // Runs of the namespace's tasks in flight at once, within the shared worker pool
+    allowedSourceTypes?: string[]; // Source plugin types its tasks may use (default: all registered ones)
+    outputRoot?: string; // Destination 'outputPath' settings of its tasks are resolved inside this directory
 }
 
 
 // --- Lifecycle Manager Interface ---
+// Runs still active after drainTimeoutMs are cancelled, and stop() resolves once their final state is recorded
+export interface StopOptions {
+    drainTimeoutMs?: number; // Default 25000, within Kubernetes' default 30 second termination grace period
+}
+
 export interface IGlobalIngestionLifecycleManager {
     init(): Promise<void>;
     start(): Promise<void>;
-    stop(): Promise<void>;
-    registerSource(pluginType: string, sourcePlugin: new (...args: any[]) => GSDataSource, transformer: IngestionDataTransformer): void;
-    registerDestination(pluginType: string, destinationPlugin: new (...args: any[]) => IDestinationPlugin): void;
+    stop(options?: StopOptions): Promise<void>;
+    registerSource(pluginType: string, sourcePlugin: new (...args: any[]) => GSDataSource, transformer: IngestionDataTransformer, configSchema?: JsonSchema, defaultConfig?: any): void;
+    registerDestination(pluginType: string, destinationPlugin: DestinationConstructor, configSchema?: JsonSchema): void;
+    registerTransformer(name: string, transformer: IngestionDataTransformer): void;
     scheduleTask(taskDefinition: IngestionTaskDefinition): Promise<GSStatus>;
     updateTask(taskId: string, updates: Partial<IngestionTaskDefinition>): Promise<GSStatus>;
     enableTask(taskId: string): Promise<GSStatus>;
     disableTask(taskId: string): Promise<GSStatus>;
     deleteTask(taskId: string): Promise<GSStatus>;
+    reloadTask(taskId: string): Promise<GSStatus>; // Rebuilds the task's plugin instances from its current definition
     getTask(taskId: string): IngestionTaskDefinition | undefined;
-    listTasks(): IngestionTaskDefinition[];
-    triggerManualTask(ctx: GSContext,taskId: string, initialPayload?: any): Promise<GSStatus>;
-    triggerWebhookTask(ctx: GSContext,endpointId: string, payload: any): Promise<GSStatus>;
+    listTasks(namespace?: string): IngestionTaskDefinition[]; // Every task unless a namespace is given
+    setNamespaceConfig(namespace: string, config: NamespaceConfig): GSStatus;
+    getNamespaceConfig(namespace: string): NamespaceConfig | undefined;
+    listNamespaces(): string[]; // Namespaces that have a config or tasks
+    registerTemplate(template: IngestionTaskTemplate): Promise<GSStatus>; // Creates or replaces a template; changes are applied to its instances
+    deleteTemplate(templateId: string): Promise<GSStatus>; // Refused while the template has instances
+    getTemplate(templateId: string): IngestionTaskTemplate | undefined;
+    listTemplates(): IngestionTaskTemplate[];
+    // Creates a task from the template, or re-renders an existing instance with new parameters
+    instantiateTemplate(templateId: string, taskId: string, params: { [name: string]: any }, options?: TemplateInstanceOptions): Promise<GSStatus>;
+    listTemplateInstances(templateId: string, namespace?: string): IngestionTaskDefinition[];
+    triggerManualTask(ctx: GSContext,taskId: string, initialPayload?: any, options?: ManualTriggerOptions): Promise<GSStatus>;
+    triggerWebhookTask(ctx: GSContext,endpointId: string, payload: any, namespace?: string): Promise<GSStatus>; // Every namespace unless one is given
     triggerAllEnabledCronTasks(ctx: GSContext): Promise<GSStatus>;
-    getEventBus(): EventEmitter;
+    getRunHistory(taskId: string, query?: RunHistoryQuery): Promise<IngestionRunRecord[]>;
+    cancelRun(taskId: string, runId?: string): Promise<GSStatus>; // Cancels every active run of the task unless runId is given
+    getEventBus(): IngestionEventBus;
 }
 
 
 // --- Orchestrator Interface (Optional, but good for explicit typing if used elsewhere) ---
 export interface IIngestionOrchestrator {
-    executeTask(ctx: GSContext,initialPayload?: any): Promise<GSStatus>;
-    getEventBus(): EventEmitter;
+    executeTask(ctx: GSContext,initialPayload?: any, signal?: AbortSignal, options?: { dryRun?: boolean, run?: RunContext }): Promise<GSStatus>;
+    getEventBus(): IngestionEventBus;
 }
 
 
 // --- Events for Ingestion Lifecycle ---
+// Identifies the run, and the attempt within it, that events and log lines belong to
+export interface RunContext {
+    runId: string;
+    taskId: string;
+    attempt: number; // 1 for the first attempt
+}
+
+// Every event is emitted with this envelope as its only argument. runId and attempt are set for
+// events of a run; taskId is unset for manager-wide events such as QUEUE_UPDATED.
+export interface IngestionEventEnvelope<T = any> {
+    runId?: string;
+    taskId?: string;
+    attempt?: number;
+    timestamp: string; // ISO 8601
+    payload: T;
+}
+
+// Dotted names, so that related events can be subscribed to together, e.g. bus.on('task.*', ...).
+// The payload of each event is given by IngestionEventPayloads.
 export const IngestionEvents = {
-    TASK_SCHEDULED: 'task_scheduled',
-    TASK_UPDATED: 'task_updated',
-    TASK_ENABLED: 'task_enabled',
-    TASK_DISABLED: 'task_disabled',
-    TASK_DELETED: 'task_deleted',
-    TASK_STARTED: 'task_started',
-    TASK_TRIGGERED: 'task_triggered',
-    TASK_COMPLETED: 'task_completed',
-    TASK_FAILED: 'task_failed',
-    DATA_FETCHED: 'data_fetched',
-    DATA_TRANSFORMED: 'data_transformed',
-    DATA_PROCESSED: 'data_processed',
+    MANAGER_STARTED: 'manager.started',
+    MANAGER_STOPPED: 'manager.stopped',
+    TASK_SCHEDULED: 'task.scheduled',
+    TASK_UPDATED: 'task.updated',
+    TASK_ENABLED: 'task.enabled',
+    TASK_DISABLED: 'task.disabled',
+    TASK_DELETED: 'task.deleted',
+    TASK_RELOADED: 'task.reloaded',
+    TEMPLATE_REGISTERED: 'template.registered',
+    TEMPLATE_DELETED: 'template.deleted',
+    TASK_STARTED: 'task.started',
+    TASK_TRIGGERED: 'task.triggered',
+    TASK_COMPLETED: 'task.completed',
+    TASK_FAILED: 'task.failed',
+    TASK_PARTIALLY_COMPLETED: 'task.partially_completed',
+    TASK_RETRYING: 'task.retrying',
+    TASK_CANCELLED: 'task.cancelled',
+    DATA_FETCHED: 'data.fetched',
+    DATA_TRANSFORMED: 'data.transformed',
+    DATA_PROCESSED: 'data.processed',
+    TASK_QUEUED: 'task.queued',
+    TASK_DEQUEUED: 'task.dequeued',
+    QUEUE_UPDATED: 'queue.updated',
     // Add more granular events as needed
-};
+} as const;
+
+export type IngestionEventName = typeof IngestionEvents[keyof typeof IngestionEvents];
+
+// Deprecated: the names events had before they were dotted. IngestionEventBus still accepts them in
+// on/once/off/waitFor, subscribing to the dotted event and logging a warning. Listeners receive the
+// same envelope as for the dotted name. These names will be removed in a later release.
+export const LegacyIngestionEventNames = {
+    task_scheduled: 'task.scheduled',
+    task_updated: 'task.updated',
+    task_enabled: 'task.enabled',
+    task_disabled: 'task.disabled',
+    task_deleted: 'task.deleted',
+    task_reloaded: 'task.reloaded',
+    task_started: 'task.started',
+    task_triggered: 'task.triggered',
+    task_completed: 'task.completed',
+    task_failed: 'task.failed',
+    task_partially_completed: 'task.partially_completed',
+    task_retrying: 'task.retrying',
+    task_cancelled: 'task.cancelled',
+    data_fetched: 'data.fetched',
+    data_transformed: 'data.transformed',
+    data_processed: 'data.processed',
+    task_queued: 'task.queued',
+    task_dequeued: 'task.dequeued',
+    queue_updated: 'queue.updated',
+} as const;
+
+export type LegacyIngestionEventName = keyof typeof LegacyIngestionEventNames;
+
+export interface IngestionEventPayloads {
+    'manager.started': undefined;
+    'manager.stopped': undefined;
+    'task.scheduled': IngestionTaskDefinition;
+    'task.updated': IngestionTaskDefinition;
+    'task.enabled': IngestionTaskDefinition;
+    'task.disabled': IngestionTaskDefinition;
+    'task.deleted': undefined;
+    'task.reloaded': { activeRunIds: string[] };
+    'template.registered': { template: IngestionTaskTemplate; instanceIds: string[] };
+    'template.deleted': { templateId: string };
+    'task.started': undefined;
+    'task.triggered': { triggerType: TriggerType }; // A run started
+    'task.completed': GSStatus;
+    'task.failed': GSStatus;
+    'task.partially_completed': GSStatus; // status.data.destinationResults lists each destination's outcome
+    'task.retrying': { nextAttempt: number; maxAttempts: number; delayMs: number; status: GSStatus }; // status of the failed attempt
+    'task.cancelled': GSStatus; // status.data.reason
+    'data.fetched': { data: any[] }; // As returned by the source
+    'data.transformed': { data: IngestionData[]; step: string; index: number; total: number }; // After each transformer step
+    'data.processed': { data: IngestionData[]; destinationResults: DestinationResult[] }; // Once at least one destination succeeded
+    'task.queued': { priority: number; queueDepth: number };
+    'task.dequeued': { waitMs: number; priority: number };
+    'queue.updated': { concurrency: number; active: number; queueDepth: number };
+}
@@ -1,133 +1,213 @@
 // C:\Users\SOHAM\Desktop\crawler\test-crawler\src\functions\ingestion\orchestrator.ts
 
-import { IngestionData, IDestinationPlugin, IngestionDataTransformer, GSDataSource, IngestionEvents } from './interfaces';
+import { IngestionData, IDestinationPlugin, IngestionDataTransformer, GSDataSource, IngestionEvents, IngestionRunMetrics, DestinationResult, RunContext, IngestionEventName, IngestionEventPayloads } from './interfaces';
 // FIX: Removed GSCloudEvent import as it's no longer needed for this strategy
 import { GSStatus, logger, GSContext } from '@godspeedsystems/core';
 import { EventEmitter } from 'events';
+import { emitIngestionEvent, getRunLogger, IngestionLogger } from './RunContext';
+import { IngestionEventBus } from './IngestionEventBus';
+
+// A resolved step of the transformer chain
+export interface TransformerChainStep {
+    name: string;
+    transformer: IngestionDataTransformer;
+    params?: any;
+}
+
+// An initialized destination plugin and the name its results are reported under
+export interface OrchestratorDestination {
+    name: string;
+    pluginType: string;
+    plugin: IDestinationPlugin;
+}
+
+// Code of a run where only some of the destinations processed the data
+const PARTIAL_SUCCESS_STATUS_CODE = 207;
 
 export class IngestionOrchestrator extends EventEmitter {
     private sourceDataSource: GSDataSource;
-    private dataTransformer: IngestionDataTransformer;
-    private destination: IDestinationPlugin | undefined;
+    private transformerChain: TransformerChainStep[];
+    private destinations: OrchestratorDestination[];
     private taskId: string;
-    private eventBus: EventEmitter;
+    private eventBus: IngestionEventBus;
 
     constructor(
         source: GSDataSource,
-        transformer: IngestionDataTransformer,
-        destination: IDestinationPlugin | undefined,
-        eventBus: EventEmitter,
+        transformerChain: TransformerChainStep[],
+        destinations: OrchestratorDestination[],
+        eventBus: IngestionEventBus,
         taskId: string
     ) {
         super();
         this.sourceDataSource = source;
-        this.dataTransformer = transformer;
-        this.destination = destination;
+        this.transformerChain = transformerChain;
+        this.destinations = destinations;
         this.eventBus = eventBus;
         this.taskId = taskId;
         logger.info(`IngestionOrchestrator instance created for task ${this.taskId}.`);
     }
 
-    public getEventBus(): EventEmitter {
+    public getEventBus(): IngestionEventBus {
         return this.eventBus;
     }
 
-    async executeTask(ctx: GSContext, initialPayload?: any): Promise<GSStatus> {
-        if (!this.sourceDataSource || !this.dataTransformer) {
-            const errorMessage = "Orchestrator not fully configured. DataSource and dataTransformer are required.";
-            logger.error(errorMessage);
-            this.eventBus.emit(IngestionEvents.TASK_FAILED, this.taskId, { success: false, message: errorMessage });
+    // `signal` is checked between stages and handed to the source and destination so they can stop early.
+    // With `dryRun` the destinations are skipped and the transformed items are returned in status.data.transformedData.
+    // `run` identifies the run in the envelope of every event and in every log line of the execution.
+    // Only data events are emitted here; the lifecycle manager emits the run's outcome once it is recorded.
+    async executeTask(ctx: GSContext, initialPayload?: any, signal?: AbortSignal, options: { dryRun?: boolean, run?: RunContext } = {}): Promise<GSStatus> {
+        const log = getRunLogger(options.run);
+        const emit = <E extends IngestionEventName>(event: E, payload: IngestionEventPayloads[E]) => emitIngestionEvent(this.eventBus, event, this.taskId, payload, options.run);
+        if (!this.sourceDataSource || !this.transformerChain || this.transformerChain.length === 0) {
+            const errorMessage = "Orchestrator not fully configured. DataSource and at least one transformer are required.";
+            log.error(errorMessage);
             return new GSStatus(false, 400, errorMessage);
         }
 
-        logger.info(`Starting ingestion task execution for task ${this.taskId}...`);
+        log.info(`Starting ingestion task execution for task ${this.taskId}...`);
         let totalItemsProcessed = 0;
+        // Counters and stage timings are returned in the status data of every outcome, for run history
+        const metrics: IngestionRunMetrics = { itemsFetched: 0, itemsTransformed: 0, itemsProcessed: 0, stageDurationsMs: {} };
+        let stageStartedAt = Date.now();
 
         try {
-            logger.info(`Orchestrator: Initializing Godspeed DataSource client (${this.sourceDataSource.constructor.name}) for task ${this.taskId}...`);
+            log.info(`Orchestrator: Initializing Godspeed DataSource client (${this.sourceDataSource.constructor.name}) for task ${this.taskId}...`);
             await this.sourceDataSource.initClient();
-            logger.info(`Source client initialized for task ${this.taskId}.`);
+            log.info(`Source client initialized for task ${this.taskId}.`);
 
-            logger.info(`Orchestrator: Executing Godspeed DataSource (${this.sourceDataSource.constructor.name}) to fetch/process data...`);
+            log.info(`Orchestrator: Executing Godspeed DataSource (${this.sourceDataSource.constructor.name}) to fetch/process data...`);
             // FIX: Pass the original ctx and initialPayload directly to the sourceDataSource.execute method
-            const sourceResultStatus: GSStatus = await this.sourceDataSource.execute(ctx, initialPayload);
+            const sourceResultStatus: GSStatus = await this.sourceDataSource.execute(ctx, initialPayload, signal);
+
+            metrics.stageDurationsMs.fetch = Date.now() - stageStartedAt;
+            if (signal?.aborted) {
+                return this._cancelledStatus(log, signal, 'fetch', metrics);
+            }
 
             let rawData: any[] = [];
             const fetchedAt = new Date();
-            logger.debug(`[Orchestrator DEBUG] Captured fetchedAt: ${fetchedAt.toISOString()}`);
+            log.debug(`[Orchestrator DEBUG] Captured fetchedAt: ${fetchedAt.toISOString()}`);
 
             if (sourceResultStatus.success) {
                 if (sourceResultStatus.data && sourceResultStatus.data.data) {
                     rawData = Array.isArray(sourceResultStatus.data.data) ? sourceResultStatus.data.data : [sourceResultStatus.data.data];
-                    logger.info(`Orchestrator: DataSource yielded ${rawData.length} data items from 'status.data.data'.`);
+                    log.info(`Orchestrator: DataSource yielded ${rawData.length} data items from 'status.data.data'.`);
                 } else if (sourceResultStatus.data) {
                     rawData = [sourceResultStatus.data];
-                    logger.info(`Orchestrator: DataSource yielded 1 data item from 'status.data'.`);
+                    log.info(`Orchestrator: DataSource yielded 1 data item from 'status.data'.`);
                 } else {
-                    logger.warn(`Orchestrator: Source executed successfully but returned no data in 'status.data' for task ${this.taskId}.`);
+                    log.warn(`Orchestrator: Source executed successfully but returned no data in 'status.data' for task ${this.taskId}.`);
                 }
             } else {
                 const errorMessage = `Source execution failed for task ${this.taskId}: ${sourceResultStatus.message}`;
-                logger.error(errorMessage, { data: sourceResultStatus.data });
-                this.eventBus.emit(IngestionEvents.TASK_FAILED, this.taskId, { success: false, message: errorMessage, data: sourceResultStatus.data });
-                return new GSStatus(false, 500, errorMessage, { data: sourceResultStatus.data });
+                log.error(errorMessage, { data: sourceResultStatus.data });
+                // Keep the source's own status code (e.g. 429 from a rate-limited API) so retry policies can act on it
+                return new GSStatus(false, sourceResultStatus.code || 500, errorMessage, { ...metrics, data: sourceResultStatus.data });
             }
 
-            this.eventBus.emit(IngestionEvents.DATA_FETCHED, rawData, this.taskId);
-            logger.info(`Orchestrator: Prepared ${rawData.length} raw data items for transformation.`);
+            metrics.itemsFetched = rawData.length;
+            emit(IngestionEvents.DATA_FETCHED, { data: rawData });
+            log.info(`Orchestrator: Prepared ${rawData.length} raw data items for transformation.`);
             
             const payloadWithFetchedAt = { ...initialPayload, fetchedAt: fetchedAt.toISOString() };
-            logger.debug(`[Orchestrator DEBUG] Passing payload to transformer:`, payloadWithFetchedAt);
-            const transformedData: IngestionData[] = await this.dataTransformer(rawData, payloadWithFetchedAt);
+            log.debug(`[Orchestrator DEBUG] Passing payload to transformer:`, payloadWithFetchedAt);
+            stageStartedAt = Date.now();
+            // Each step receives the previous step's output; the first one receives the raw source data
+            let transformedData: IngestionData[] = rawData;
+            for (let index = 0; index < this.transformerChain.length; index++) {
+                const step = this.transformerChain[index];
+                transformedData = await step.transformer(transformedData, payloadWithFetchedAt, step.params);
+                if (signal?.aborted) {
+                    metrics.stageDurationsMs.transform = Date.now() - stageStartedAt;
+                    return this._cancelledStatus(log, signal, `transform step '${step.name}'`, metrics);
+                }
+                emit(IngestionEvents.DATA_TRANSFORMED, { data: transformedData, step: step.name, index, total: this.transformerChain.length });
+                log.info(`Orchestrator: Transformer '${step.name}' (${index + 1}/${this.transformerChain.length}) returned ${transformedData.length} data items.`);
+            }
+            metrics.stageDurationsMs.transform = Date.now() - stageStartedAt;
+            metrics.itemsTransformed = transformedData.length;
 
-            this.eventBus.emit(IngestionEvents.DATA_TRANSFORMED, transformedData, this.taskId);
-            logger.info(`Orchestrator: Transformed data, received ${transformedData.length} data items.`);
+            if (options.dryRun) {
+                log.info(`Orchestrator: Dry run of task ${this.taskId} transformed ${transformedData.length} items. Skipping destinations.`);
+                return new GSStatus(true, 200, "Dry run completed. No destination was called.", { ...metrics, dryRun: true, transformedData });
+            }
 
             if (transformedData.length === 0) {
-                logger.warn(`Orchestrator: No data ingested from source for task ${this.taskId}. Task completed with no data.`);
-                const status = new GSStatus(true, 200, "Ingestion task completed: No data from source.", { itemsProcessed: 0 });
-                this.eventBus.emit(IngestionEvents.TASK_COMPLETED, this.taskId, status);
-                return status;
+                log.warn(`Orchestrator: No data ingested from source for task ${this.taskId}. Task completed with no data.`);
+                return new GSStatus(true, 200, "Ingestion task completed: No data from source.", { ...metrics, itemsProcessed: 0 });
             }
 
-            logger.info(`Orchestrator: Processing data for destination (if configured) for task ${this.taskId}...`);
-
-            if (this.destination) {
-                try {
-                    const sendResult = await this.destination.processData(transformedData);
-
-                    if (!sendResult.success) {
-                        logger.error(`Orchestrator: Destination processing failed for task ${this.taskId}: ${sendResult.message}`, { data: sendResult.data });
-                        const failureStatus = new GSStatus(false, 500, `Destination processing failed for task ${this.taskId}: ${sendResult.message}`, { itemsProcessed: totalItemsProcessed, data: sendResult.data });
-                        this.eventBus.emit(IngestionEvents.TASK_FAILED, this.taskId, failureStatus);
-                        return failureStatus;
-                    } else {
-                        totalItemsProcessed = transformedData.length;
-                        this.eventBus.emit(IngestionEvents.DATA_PROCESSED, transformedData, this.taskId);
-                        logger.info(`Orchestrator: Destination processing complete for task ${this.taskId}.`);
-                    }
-                } catch (sendError: any) {
-                    logger.error(`Orchestrator: Error during destination processing for task ${this.taskId}: ${sendError.message}`, { error: sendError });
-                    const failureStatus = new GSStatus(false, 500, `Error during destination processing for task ${this.taskId}: ${sendError.message}`, { itemsProcessed: totalItemsProcessed, data: sendError.message });
-                    this.eventBus.emit(IngestionEvents.TASK_FAILED, this.taskId, failureStatus);
-                    return failureStatus;
+            log.info(`Orchestrator: Processing data for destination (if configured) for task ${this.taskId}...`);
+
+            let destinationResults: DestinationResult[] | undefined;
+            if (this.destinations.length > 0) {
+                stageStartedAt = Date.now();
+                // Every destination receives the same data at the same time; one failing does not stop the others
+                destinationResults = await Promise.all(this.destinations.map(destination => this._processDestination(destination, transformedData, log, signal)));
+                metrics.stageDurationsMs.process = Date.now() - stageStartedAt;
+                if (signal?.aborted) {
+                    return this._cancelledStatus(log, signal, 'process', metrics);
+                }
+
+                const failedResults: Array<DestinationResult & { data?: any }> = destinationResults.filter(result => !result.success);
+                if (failedResults.length === destinationResults.length) {
+                    const failureMessage = failedResults.map(result => `${result.name}: ${result.message}`).join('; ');
+                    const failureData = failedResults.length === 1 ? failedResults[0].data : failedResults.map(result => result.data);
+                    return new GSStatus(false, 500, `Destination processing failed for task ${this.taskId}: ${failureMessage}`, { ...metrics, itemsProcessed: totalItemsProcessed, destinationResults, data: failureData });
                 }
+
+                totalItemsProcessed = transformedData.length;
+                emit(IngestionEvents.DATA_PROCESSED, { data: transformedData, destinationResults });
+                if (failedResults.length > 0) {
+                    const failedNames = failedResults.map(result => result.name).join(', ');
+                    log.warn(`Orchestrator: Task ${this.taskId} partially completed. ${failedResults.length} of ${destinationResults.length} destinations failed: ${failedNames}.`);
+                    return new GSStatus(
+                        true,
+                        PARTIAL_SUCCESS_STATUS_CODE,
+                        `Ingestion task partially completed: ${failedResults.length} of ${destinationResults.length} destinations failed (${failedNames}).`,
+                        { ...metrics, itemsProcessed: totalItemsProcessed, partial: true, destinationResults }
+                    );
+                }
+                log.info(`Orchestrator: Destination processing complete for task ${this.taskId} (${destinationResults.length} destinations).`);
             } else {
                 totalItemsProcessed = transformedData.length;
-                logger.info(`Orchestrator: No destination configured for task ${this.taskId}. Data considered processed after transformation.`);
+                log.info(`Orchestrator: No destination configured for task ${this.taskId}. Data considered processed after transformation.`);
             }
 
-            logger.info(`Ingestion task ${this.taskId} completed. Total items processed/emitted: ${totalItemsProcessed}.`);
-            const successStatus = new GSStatus(true, 200, "Ingestion task completed successfully.", { itemsProcessed: totalItemsProcessed });
-            this.eventBus.emit(IngestionEvents.TASK_COMPLETED, this.taskId, successStatus);
-            return successStatus;
+            log.info(`Ingestion task ${this.taskId} completed. Total items processed/emitted: ${totalItemsProcessed}.`);
+            return new GSStatus(true, 200, "Ingestion task completed successfully.", { ...metrics, itemsProcessed: totalItemsProcessed, destinationResults });
 
         } catch (error: any) {
+            if (signal?.aborted) {
+                return this._cancelledStatus(log, signal, 'execution', metrics);
+            }
             const errorMessage = `Ingestion task ${this.taskId} failed: ${error.message}`;
-            logger.error(errorMessage, { error: error });
-            const failureStatus = new GSStatus(false, 500, errorMessage, { itemsProcessed: totalItemsProcessed, data: error.message });
-            this.eventBus.emit(IngestionEvents.TASK_FAILED, this.taskId, failureStatus);
-            return failureStatus;
+            log.error(errorMessage, { error: error });
+            return new GSStatus(false, 500, errorMessage, { ...metrics, itemsProcessed: totalItemsProcessed, data: error.message });
         }
     }
+
+    // Never throws: a destination that rejects is reported as a failed result
+    private async _processDestination(destination: OrchestratorDestination, data: IngestionData[], log: IngestionLogger, signal?: AbortSignal): Promise<DestinationResult & { data?: any }> {
+        const startedAt = Date.now();
+        const result = { name: destination.name, pluginType: destination.pluginType };
+        try {
+            const sendResult = await destination.plugin.processData(data, signal);
+            if (!sendResult.success) {
+                log.error(`Orchestrator: Destination '${destination.name}' failed for task ${this.taskId}: ${sendResult.message}`, { data: sendResult.data });
+                return { ...result, success: false, code: sendResult.code || 500, message: sendResult.message, durationMs: Date.now() - startedAt, data: sendResult.data };
+            }
+            log.info(`Orchestrator: Destination '${destination.name}' processed ${data.length} items for task ${this.taskId}.`);
+            return { ...result, success: true, code: sendResult.code || 200, message: sendResult.message, durationMs: Date.now() - startedAt };
+        } catch (sendError: any) {
+            log.error(`Orchestrator: Error during destination processing ('${destination.name}') for task ${this.taskId}: ${sendError.message}`, { error: sendError });
+            return { ...result, success: false, code: 500, message: sendError.message, durationMs: Date.now() - startedAt, data: sendError.message };
+        }
+    }
+
+    private _cancelledStatus(log: IngestionLogger, signal: AbortSignal, stage: string, metrics: IngestionRunMetrics): GSStatus {
+        const reason = signal.reason instanceof Error ? signal.reason.message : String(signal.reason ?? 'cancelled');
+        log.warn(`Orchestrator: Task ${this.taskId} was cancelled during ${stage} (${reason}).`);
+        return new GSStatus(false, 499, `Ingestion task ${this.taskId} was cancelled during ${stage}: ${reason}`, { ...metrics, cancelled: true, reason });
+    }
 }
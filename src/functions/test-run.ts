@@ -2,15 +2,14 @@
 // This file initializes and configures the GlobalIngestionLifecycleManager
 // with actual data sources, destinations, and scheduled tasks for integration testing.
 
-import { GlobalIngestionLifecycleManager } from './GlobalIngestionLifecycleManager';
 import { IngestionTaskStatus, IngestionTaskDefinition, IngestionDataTransformer, IngestionData, IngestionEvents } from './ingestion/interfaces';
 import { GSContext } from '@godspeedsystems/core';
 
-// --- Import your actual Source and Destination Plugin Implementations ---
-import { DataSource as HttpCrawlerDataSource } from '../datasources/types/http-crawler';
-import { DataSource as GitCrawlerDataSource } from '../datasources/types/git-crawler';
-import { DataSource as GoogleDriveCrawlerDataSource } from '../datasources/types/gdrive-crawler';
-import { FileSystemDestinationAdapter } from './ingestion/FileSystemDestinationAdapter';
+// --- Source and Destination Plugins are discovered from src/datasources/types and src/functions/ingestion ---
+import { discoverPlugins } from './ingestion/PluginDiscovery';
+import { globalIngestionManager } from './ingestion/IngestionManagerInstance';
+import { TaskDefinitionLoader } from './ingestion/TaskDefinitionLoader';
+import * as path from 'path';
 import gitcodeMetadataExtractorTransformer from './Transformers/code-metadata-extractor-transformer';
 import htmlToPlaintextTransformer from './Transformers/html-to-plaintext-transformer';
 import gdriveContentNormalizerTransformer from './Transformers/gdrive-content-normalizer-transformer';
@@ -39,83 +38,37 @@ import passthroughTransformer from './Transformers/passthrough-transformer';
 // };
 
 
-// Instantiate your GlobalIngestionLifecycleManager as a singleton
-const globalIngestionManager = new GlobalIngestionLifecycleManager();
+// Declarative task definitions. Restored tasks are updated in place, so their run state is kept.
+const taskDefinitionLoader = new TaskDefinitionLoader(globalIngestionManager, {
+    directory: process.env.INGESTION_TASKS_DIR || path.join(__dirname, '..', 'ingestion-tasks'),
+    watch: process.env.INGESTION_TASKS_WATCH !== 'false',
+});
 
 // Function to perform the setup. This will be called during your Godspeed application's startup.
 export async function setupGlobalIngestionManager() {
     console.log("--- Setting up GlobalIngestionLifecycleManager for Integration Test ---");
 
-    // 1. Register your Source Plugins
-    globalIngestionManager.registerSource('http-crawler', HttpCrawlerDataSource, htmlToPlaintextTransformer);
-    console.log("Registered 'http-crawler' source.");
-
-    globalIngestionManager.registerSource('git-crawler', GitCrawlerDataSource, gitcodeMetadataExtractorTransformer);
-    console.log("Registered 'git-crawler' source.");
-
-    globalIngestionManager.registerSource('gdrive-crawler', GoogleDriveCrawlerDataSource,passthroughTransformer);
-    console.log("Registered 'git-crawler' source.");
-
-    // 2. Register your Destination Plugins
-    globalIngestionManager.registerDestination('file-system-destination', FileSystemDestinationAdapter);
-    console.log("Registered 'file-system-destination' destination.");
-
-    // 3. Schedule the Ingestion Task Definitions
-    const googleDriveCrawlTask: IngestionTaskDefinition = {
-    id: 'my-google-drive-crawl-task', // A unique identifier for this specific task
-    name: 'Google Drive Data Ingestion',
-    enabled: true, // Set to 'true' to enable this task for scheduling or manual triggering
-
-    source: {
-        pluginType: 'gdrive-crawler', // This must match the 'type' defined in your google-drive-crawler.yaml
-        config: {
-            // --- AUTHENTICATION (REQUIRED) ---
-            // Choose ONE of the following:
-            // Option A: Path to Service Account JSON key file (recommended for local dev)
-            // serviceAccountKeyPath: process.env.GOOGLE_SERVICE_ACCOUNT_KEY_PATH,
-            // Option B: Entire JSON content as a string (recommended for production/containers)
-            serviceAccountKeyPath: process.env.GOOGLE_SERVICE_ACCOUNT_KEY_PATH,
-
-            // --- USER IMPERSONATION (REQUIRED for Google Workspace Domain-Wide Delegation) ---
-            // Provide the email of the user whose Drive you want to crawl.
-            // This user must be within your Google Workspace domain, and DWD must be configured.
-            userToImpersonateEmail: process.env.GOOGLE_DRIVE_IMPERSONATE_USER_EMAIL,
-
-            // --- CRAWLING SCOPE (REQUIRED) ---
-            // The ID of the Google Drive folder to start crawling from.
-            // - Use 'root' to crawl the entire accessible Drive of the impersonated user.
-            // - Use a specific folder ID (e.g., '1a2b3c4d5e6f7g8h9i0j') from the folder's URL in Google Drive.
-            folderId: '1V_5NJVYdZ7HyHxpYBjLs8TIjVc_nWRJ0' // <<< IMPORTANT: REPLACE THIS with your actual folder ID or 'root'
-    
-            // --- OPTIONAL CRAWLING SETTINGS ---
-            // maxFiles: 500, // Limit the number of files fetched per run (useful for testing)
-            // includeSharedDrives: false, // Set to true to include Shared Drives
-            // includeMimeTypes: "application/vnd.google-apps.document,application/pdf,text/plain", // Only crawl these MIME types
-            // excludeMimeTypes: "image/jpeg,image/png", // Exclude these MIME types
-            // exportGoogleDocs: true, // Set to true to convert Google Docs/Sheets/Slides to a standard format
-            // exportMimeType: "text/plain", // If exportGoogleDocs is true, specify the target MIME type
-        }
-    },
-
-    destination: {
-        pluginType: 'file-system-destination', // Replace with your actual destination plugin type
-        config: {
-            outputPath: './crawled_output/gdrive-data' // Path where the crawled data will be saved
-        }
-    },
+    // 1 & 2. Register every Source and Destination Plugin (with its config schema and defaults)
+    const plugins = await discoverPlugins(globalIngestionManager, {
+        sourceDirectory: path.join(__dirname, '..', 'datasources', 'types'),
+        destinationDirectory: path.join(__dirname, 'ingestion'),
+        // Named transformers that tasks can chain with 'transformers: [{ name, params }]'
+        transformerDirectory: path.join(__dirname, 'Transformers'),
+        // Sources not listed here use the passthrough transformer
+        transformers: {
+            'http-crawler': htmlToPlaintextTransformer,
+            'git-crawler': gitcodeMetadataExtractorTransformer,
+        },
+        defaultTransformer: passthroughTransformer,
+    });
+    console.log(`Registered plugins: ${plugins.map(plugin => `'${plugin.type}' (${plugin.kind})`).join(', ')}.`);
 
-    trigger: {
-        type: 'cron', // Define how this task will be triggered
-        expression: '* * * * *' // Example: Run daily at midnight UTC
-        // Other trigger types:
-        // type: 'manual', // Trigger manually via globalIngestionManager.triggerManualTask()
-        // type: 'webhook', endpointId: 'gdrive-change-webhook', // Trigger via an incoming webhook
-    },
+    // Restore persisted tasks before loading, so task files update them instead of clashing
+    await globalIngestionManager.init();
 
-    currentStatus: IngestionTaskStatus.SCHEDULED, // Initial status of the task
-};
-    await globalIngestionManager.scheduleTask(googleDriveCrawlTask);
-    console.log(`Scheduled task: '${ googleDriveCrawlTask.id}' to run every 2 minutes.`);
+    // 3. Load the Ingestion Task Definitions from src/ingestion-tasks/*.yaml (changes are applied while running)
+    await taskDefinitionLoader.load();
+    console.log("Loaded ingestion task definitions.");
 
     // --- CRON TASKS ---
     // Cron HTTP crawling task
@@ -232,14 +185,21 @@ export async function setupGlobalIngestionManager() {
 
 
     // --- Event Listeners for Debugging ---
-    globalIngestionManager.getEventBus().on(IngestionEvents.TASK_COMPLETED, (taskId: string, status: IngestionTaskStatus) => {
-        console.log(`[Event Listener] Task '${taskId}' completed with status: ${status}`);
+    globalIngestionManager.getEventBus().on(IngestionEvents.TASK_COMPLETED, event => {
+        console.log(`[Event Listener] Task '${event.taskId}' run ${event.runId} (attempt ${event.attempt}) completed: ${event.payload.message}`);
+    });
+    globalIngestionManager.getEventBus().on(IngestionEvents.TASK_FAILED, event => {
+        console.error(`[Event Listener] Task '${event.taskId}' run ${event.runId} (attempt ${event.attempt}) FAILED:`, event.payload);
     });
-    globalIngestionManager.getEventBus().on(IngestionEvents.TASK_FAILED, (taskId: string, error: any) => {
-        console.error(`[Event Listener] Task '${taskId}' FAILED:`, error);
+    globalIngestionManager.getEventBus().on(IngestionEvents.TASK_PARTIALLY_COMPLETED, event => {
+        console.warn(`[Event Listener] Task '${event.taskId}' run ${event.runId} PARTIALLY completed:`, event.payload.data?.destinationResults);
     });
-    globalIngestionManager.getEventBus().on(IngestionEvents.DATA_TRANSFORMED, (transformedData: IngestionData[], taskId: string) => {
-        console.log(`[Event Listener] Task '${taskId}' emitted DATA_TRANSFORMED. Transformed ${transformedData.length} items.`);
+    globalIngestionManager.getEventBus().on('task.*', (event, eventName) => {
+        console.log(`[Event Listener] ${eventName} for task '${event.taskId}'${event.runId ? ` (run ${event.runId}, attempt ${event.attempt})` : ''}.`);
+    });
+    globalIngestionManager.getEventBus().on(IngestionEvents.DATA_TRANSFORMED, event => {
+        const transformedData = event.payload.data;
+        console.log(`[Event Listener] Task '${event.taskId}' run ${event.runId} emitted DATA_TRANSFORMED. Transformed ${transformedData.length} items.`);
         transformedData.slice(0, 2).forEach((item, index) => { // Log a small sample
             console.log(`   Sample Item ${index + 1}: ID='${item.id}', ChangeType='${item.metadata?.changeType || 'N/A'}', ContentLength=${item.content ? String(item.content).length : 0} `);
         });
@@ -249,8 +209,7 @@ export async function setupGlobalIngestionManager() {
     });
 
 
-    // 4. Initialize and Start the Manager
-    await globalIngestionManager.init();
+    // 4. Start the Manager (init() already ran above)
     await globalIngestionManager.start();
     
     console.log("--- GlobalIngestionLifecycleManager setup complete and ready for triggers. ---");
@@ -1,6 +1,6 @@
 // src/functions/triggerIngestionManagerCronTasks.ts
 import { GSContext, GSStatus } from "@godspeedsystems/core";
-import { globalIngestionManager } from "./test-run";
+import { globalIngestionManager } from "./ingestion/IngestionManagerInstance";
 import { IngestionTaskStatus, IngestionTaskDefinition } from "./ingestion/interfaces"; // Import IngestionTaskStatus and IngestionTaskDefinition
 
 /**
@@ -1,6 +1,6 @@
 // src/functions/triggerIngestionManagerWebhookTasks.ts
 import { GSContext, GSStatus, logger } from "@godspeedsystems/core";
-import { globalIngestionManager } from "./test-run";
+import { globalIngestionManager } from "./ingestion/IngestionManagerInstance";
 import * as crypto from 'crypto';
 
 export default  async function (ctx: GSContext): Promise<GSStatus> {
@@ -9,6 +9,7 @@ try {
 }
 
 import Godspeed from "@godspeedsystems/core";
+import { globalIngestionManager } from "./functions/ingestion/IngestionManagerInstance";
 
 // create a godspeed
 const gsApp = new Godspeed();
@@ -16,3 +17,35 @@ const gsApp = new Godspeed();
 // initilize the Godspeed App
 // this is responsible to load all kind of entities
 gsApp.initialize();
+
+// Graceful shutdown: stop accepting ingestion triggers and let in-flight runs finish before exiting.
+// Runs still active after INGESTION_DRAIN_TIMEOUT_MS are cancelled and recorded as CANCELLED.
+// Keep the timeout below the pod's terminationGracePeriodSeconds (see helm-chart/values.yaml).
+// A value that is not a non-negative number is ignored in favour of the manager's default.
+const configuredDrainTimeoutMs = process.env.INGESTION_DRAIN_TIMEOUT_MS ? Number(process.env.INGESTION_DRAIN_TIMEOUT_MS) : undefined;
+let drainTimeoutMs: number | undefined;
+if (configuredDrainTimeoutMs !== undefined && (!Number.isFinite(configuredDrainTimeoutMs) || configuredDrainTimeoutMs < 0)) {
+    console.warn(`INGESTION_DRAIN_TIMEOUT_MS '${process.env.INGESTION_DRAIN_TIMEOUT_MS}' is not a non-negative number of milliseconds. Using the default drain timeout.`);
+} else {
+    drainTimeoutMs = configuredDrainTimeoutMs;
+}
+
+let shuttingDown = false;
+const shutdown = async (signal: NodeJS.Signals) => {
+    if (shuttingDown) {
+        console.warn(`Received ${signal} again while shutting down. Exiting immediately.`);
+        process.exit(1);
+    }
+    shuttingDown = true;
+    console.log(`Received ${signal}. Draining ingestion runs before exit...`);
+    try {
+        await globalIngestionManager.stop({ drainTimeoutMs });
+        process.exit(0);
+    } catch (error) {
+        console.error("Failed to stop the ingestion manager cleanly.");
+        console.error(error);
+        process.exit(1);
+    }
+};
+process.on('SIGTERM', shutdown);
+process.on('SIGINT', shutdown);